@@ -0,0 +1,75 @@
+import {
+  createChatModel,
+  ModelConfigError,
+  resolveModelConfig,
+} from "@/lib/server/model-registry";
+import { assessAutomation } from "@/lib/server/assess-automation";
+import {
+  parseAutomationRequest,
+  toErrorResponse,
+  toRateLimitedResponse,
+  WorkflowRequestError,
+} from "@/lib/server/workflow-request";
+import { takeModelRequestToken } from "@/lib/server/rate-limit";
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// 对整棵树或某个子树做 AI 提效评估，返回以节点 id 为键的结果。
+// 与 /api/workflow 使用相同的请求上限与限流
+export async function POST(req: Request) {
+  const limit = takeModelRequestToken(req);
+  if (!limit.allowed) return toRateLimitedResponse(limit.retryAfterSeconds);
+
+  try {
+    const {
+      flowData,
+      nodeId,
+      model: requestedModel,
+    } = await parseAutomationRequest(req);
+
+    let model;
+    let modelConfig;
+    try {
+      modelConfig = resolveModelConfig(requestedModel);
+      model = createChatModel(modelConfig);
+    } catch (error) {
+      if (error instanceof ModelConfigError) {
+        return toErrorResponse(
+          { error: error.message, code: "invalid_config" },
+          400
+        );
+      }
+      throw error;
+    }
+
+    const assessments = await assessAutomation(
+      model,
+      modelConfig,
+      flowData,
+      nodeId
+    );
+    if (Object.keys(assessments).length === 0) {
+      return toErrorResponse(
+        { error: "Model returned no valid assessments", code: "empty_result" },
+        500
+      );
+    }
+    return jsonResponse({ assessments });
+  } catch (error: unknown) {
+    if (error instanceof WorkflowRequestError) {
+      return toErrorResponse(
+        { error: error.message, code: error.code, details: error.details },
+        error.status
+      );
+    }
+    console.error("Error assessing automation:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+}
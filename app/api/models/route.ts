@@ -0,0 +1,53 @@
+import {
+  getDefaultModelConfig,
+  listProviders,
+} from "@/lib/server/model-registry";
+import {
+  ModelsResponse,
+  ProviderInfo,
+  PublicProviderInfo,
+} from "@/lib/providers";
+
+export const dynamic = "force-dynamic";
+
+// 尝试读取本地 Ollama 已安装的模型，失败时沿用环境变量中的列表
+async function withOllamaTags(info: ProviderInfo): Promise<ProviderInfo> {
+  if (info.id !== "ollama" || !info.baseURL) return info;
+  try {
+    const response = await fetch(`${info.baseURL}/api/tags`, {
+      signal: AbortSignal.timeout(1500),
+    });
+    if (!response.ok) return info;
+    const { models } = (await response.json()) as {
+      models?: { name: string }[];
+    };
+    const names = (models || []).map((model) => model.name);
+    if (names.length === 0) return info;
+    return {
+      ...info,
+      models: Array.from(new Set([...info.models, ...names])),
+    };
+  } catch {
+    return info;
+  }
+}
+
+// 只返回选择模型需要的字段，接口地址留在服务端
+function toPublicInfo(info: ProviderInfo): PublicProviderInfo {
+  return {
+    id: info.id,
+    label: info.label,
+    models: info.models,
+    defaultModel: info.defaultModel,
+  };
+}
+
+export async function GET() {
+  const providers = await Promise.all(listProviders().map(withOllamaTags));
+  const { provider, model, temperature } = getDefaultModelConfig();
+  const body: ModelsResponse = {
+    providers: providers.map(toPublicInfo),
+    defaultConfig: { provider, model, temperature },
+  };
+  return Response.json(body);
+}
@@ -1,167 +1,218 @@
-import { ChatOpenAI } from "@langchain/openai";
-import { StructuredOutputParser } from "@langchain/core/output_parsers";
-import { PromptTemplate } from "@langchain/core/prompts";
-import { z } from "zod";
-import { FlowData } from "@/lib/stores/flow-store";
-
-// 定义输出结构
-const workflowParser = StructuredOutputParser.fromZodSchema(
-  z.array(
-    z.object({
-      text: z.string().describe("工作环节名称"),
-      ratio: z
-        .number()
-        .min(0)
-        .max(1)
-        .describe("这个工作环节占总用时的比例（0-1之间的小数）"),
-    })
-  )
-);
-
-// 修改获取树状结构字符串的函数
-function getTreeString(
-  flowData: FlowData,
-  currentNodeId: string,
-  indent = ""
-): string {
-  let result = "";
-  const isCurrentNode = flowData.id === currentNodeId;
-  const prefix = isCurrentNode ? "▶ " : "  ";
-
-  // 添加当前节点，不显示百分比
-  result += `${indent}${prefix}${flowData.label}\n`;
-
-  // 递归添加子节点
-  if (flowData.children.length > 0) {
-    flowData.children.forEach((child) => {
-      result += getTreeString(child, currentNodeId, indent + "  ");
-    });
-  }
-
-  return result;
-}
-
-// 修改提示模板
-const PROMPT_TEMPLATE = `
-<role>
-  工作流程分析专家，擅长将复杂工作流程拆解为工作流程树
-</role>
-
-<task>
-  请拆解以下工作内容："{input}"
-
-  当前工作流程树（▶ 为待拆解节点）：
-{context}
-</task>
-
-<rules>
-  1. 每个环节包含名称和时间比例（总和为1）
-  2. 只包含当前工种的具体工作
-  3. 环节之间保持顺序连贯性
-  4. 拆解结果不得与工作流程树中已有环节重复
-  5. 拆解必须是当前工作的直接子任务
-  6. 最后一个子任务应自然衔接下一环节
-</rules>
-
-<example>
-  错误："前端开发" -> "写代码"、"开会"、"测试"
-  原因：任务笼统且包含其他工种（测试）职责
-
-  正确："前端开发" -> "组件设计"、"交互实现"、"性能优化"
-  原因：都是前端工程师的具体工作，且有序连贯
-</example>
-
-<output_format>
-  {format_instructions}
-</output_format>
-`;
-
-const prompt = PromptTemplate.fromTemplate(PROMPT_TEMPLATE);
-
-const model = new ChatOpenAI(
-  {
-    // modelName: "claude-3-5-sonnet-20240620",
-    modelName: "qwen-max",
-    temperature: 1,
-    streaming: true,
-    openAIApiKey: process.env.OPENAI_API_KEY,
-    verbose: true,
-  },
-  { baseURL: process.env.OPENAI_BASE_URL }
-);
+import {
+  createChatModel,
+  ModelConfigError,
+  resolveModelConfig,
+} from "@/lib/server/model-registry";
+import {
+  buildDecompositionPrompt,
+  getDecompositionContext,
+  runDecomposition,
+} from "@/lib/server/decompose";
+import {
+  PromptTemplateError,
+  resolveOutputLanguage,
+  resolvePromptTemplate,
+} from "@/lib/server/prompt-templates";
+import {
+  parseWorkflowRequest,
+  toErrorResponse,
+  toRateLimitedResponse,
+  WorkflowRequestError,
+} from "@/lib/server/workflow-request";
+import { takeModelRequestToken } from "@/lib/server/rate-limit";
+import {
+  createDecompositionCache,
+  createDecompositionCacheKey,
+} from "@/lib/server/decomposition-cache";
+import {
+  encodeWorkflowEvent,
+  WORKFLOW_STREAM_CONTENT_TYPE,
+  DecompositionCheck,
+  WorkflowStreamEvent,
+  WorkflowUsage,
+} from "@/lib/workflow-stream";
+
+// 拆解结果缓存，WORKFLOW_CACHE=off 时关闭；设置 WORKFLOW_CACHE_DIR 后同时写入磁盘
+const CACHE_TTL_SECONDS =
+  Number(process.env.WORKFLOW_CACHE_TTL) > 0
+    ? Number(process.env.WORKFLOW_CACHE_TTL)
+    : 7 * 24 * 60 * 60;
+
+const decompositionCache =
+  process.env.WORKFLOW_CACHE === "off"
+    ? null
+    : createDecompositionCache({
+        maxEntries: Number(process.env.WORKFLOW_CACHE_MAX_ENTRIES) || 500,
+        ttl: CACHE_TTL_SECONDS * 1000,
+        directory: process.env.WORKFLOW_CACHE_DIR || undefined,
+      });
 
 export async function POST(req: Request) {
-  try {
-    const { text, flowData, nodeId } = await req.json();
+  const limit = takeModelRequestToken(req);
+  if (!limit.allowed) return toRateLimitedResponse(limit.retryAfterSeconds);
 
-    let contextStr = "无上层工作流程";
-    if (flowData && nodeId) {
-      contextStr =
-        "当前完整工作流程树（▶ 表示当前需要拆解的节点）：\n" +
-        getTreeString(flowData, nodeId);
+  try {
+    const {
+      text,
+      flowData,
+      nodeId,
+      model: requestedModel,
+      template: requestedTemplate,
+      language: requestedLanguage,
+      bypassCache,
+    } = await parseWorkflowRequest(req);
+
+    // 根据请求体与环境变量选择模型提供方，并渲染选用的提示词模板
+    let model;
+    let modelConfig;
+    let template;
+    let language;
+    try {
+      modelConfig = resolveModelConfig(requestedModel);
+      model = createChatModel(modelConfig);
+      template = resolvePromptTemplate(requestedTemplate);
+      language = resolveOutputLanguage(requestedLanguage);
+    } catch (error) {
+      if (
+        error instanceof ModelConfigError ||
+        error instanceof PromptTemplateError
+      ) {
+        return toErrorResponse(
+          { error: error.message, code: "invalid_config" },
+          400
+        );
+      }
+      throw error;
     }
 
-    const formatInstructions = workflowParser.getFormatInstructions();
-    const input = await prompt.format({
-      input: text,
+    const contextStr = getDecompositionContext(flowData, nodeId);
+    const input = await buildDecompositionPrompt(
+      template,
+      text,
+      contextStr,
+      language
+    );
+
+    // 相同的模板、模型、环节与上下文复用之前的结果；跳过缓存时仍然写入新结果
+    const cacheKey = createDecompositionCacheKey({
+      template,
+      model: modelConfig,
+      language,
+      label: text,
       context: contextStr,
-      format_instructions: formatInstructions,
     });
+    const cached =
+      decompositionCache && !bypassCache
+        ? await decompositionCache.get(cacheKey)
+        : null;
+
+    // 客户端取消请求或断开连接时中止模型调用，不再继续消耗 token
+    const abortController = new AbortController();
+    const abort = () => abortController.abort();
+    req.signal.addEventListener("abort", abort);
 
     const stream = new ReadableStream({
       async start(controller) {
-        try {
-          const modelStream = await model.stream([["system", input]]);
-
-          let buffer = "";
-          let inJsonBlock = false;
-
-          for await (const chunk of modelStream) {
-            const content =
-              typeof chunk === "string" ? chunk : chunk.content || "";
-            buffer += content;
+        const encoder = new TextEncoder();
+        const send = (event: WorkflowStreamEvent) => {
+          // 流已被取消时无法再写入
+          if (abortController.signal.aborted) return;
+          controller.enqueue(encoder.encode(encodeWorkflowEvent(event)));
+        };
+
+        let count = 0;
+        const usage: WorkflowUsage = {
+          inputTokens: 0,
+          outputTokens: 0,
+          totalTokens: 0,
+        };
+
+        // 命中缓存时按正常生成的事件顺序重放，客户端无需区分
+        if (cached) {
+          cached.steps.forEach((step, index) =>
+            send({ type: "step", index, step })
+          );
+          send({ type: "validation", checks: cached.checks });
+          send({ type: "done", count: cached.steps.length, cached: true });
+          req.signal.removeEventListener("abort", abort);
+          controller.close();
+          return;
+        }
 
-            // 检查 JSON 块的开始
-            if (!inJsonBlock && buffer.includes("```json")) {
-              inJsonBlock = true;
-              // 清除开始标记前的内容，保留标记后的内容
-              buffer = buffer.slice(buffer.indexOf("```json") + 7);
-              continue;
+        let checks: DecompositionCheck[] = [];
+        try {
+          // 每解析出一个完整的环节就立即发送，校验未通过时自动重试
+          const steps = await runDecomposition(
+            {
+              model,
+              config: modelConfig,
+              prompt: input,
+              flowData: flowData && nodeId ? flowData : null,
+              label: text,
+              signal: abortController.signal,
+            },
+            {
+              onStep: (step) => send({ type: "step", index: count++, step }),
+              onUsage: (value) => {
+                usage.inputTokens += value.inputTokens;
+                usage.outputTokens += value.outputTokens;
+                usage.totalTokens += value.totalTokens;
+              },
+              onRetry: (attempt, violations) => {
+                count = 0;
+                send({ type: "retry", attempt, violations });
+              },
+              onValidation: (value) => {
+                checks = value;
+                send({ type: "validation", checks: value });
+              },
             }
+          );
 
-            // 在 JSON 块内，检查是否有结束标记
-            if (inJsonBlock) {
-              const endIndex = buffer.indexOf("```");
-              if (endIndex !== -1) {
-                // 发送结束标记前的内容
-                const jsonContent = buffer.slice(0, endIndex);
-                for (const char of jsonContent) {
-                  console.log("end in json block buffer: ", char);
-                  controller.enqueue(char);
-                }
-                inJsonBlock = false;
-                break;
-              } else {
-                // 没有结束标记，发送缓冲区内容并清空
-                for (const char of buffer) {
-                  console.log("in json block buffer: ", char);
-                  controller.enqueue(char);
-                }
-                buffer = "";
-              }
+          if (usage.totalTokens > 0) {
+            send({ type: "usage", usage });
+          }
+          if (steps.length === 0) {
+            send({
+              type: "error",
+              code: "empty_result",
+              message: "Model returned no valid steps",
+            });
+          } else {
+            send({ type: "done", count: steps.length });
+            // 校验未通过的结果不缓存，下次重新生成
+            if (decompositionCache && checks.every((check) => check.passed)) {
+              await decompositionCache.set(cacheKey, { steps, checks });
             }
           }
-          console.log("controller close: ");
-          controller.close();
         } catch (error) {
-          controller.error(error);
+          if (abortController.signal.aborted) {
+            console.info("Workflow stream aborted by client");
+            return;
+          }
+          console.error("Error streaming workflow:", error);
+          send({
+            type: "error",
+            code: "generation_failed",
+            message:
+              error instanceof Error ? error.message : "Unknown error occurred",
+          });
+        } finally {
+          req.signal.removeEventListener("abort", abort);
+          // 已取消的流不能再关闭，error 在这种情况下不会抛出
+          if (abortController.signal.aborted) {
+            controller.error(new Error("Aborted"));
+          } else {
+            controller.close();
+          }
         }
       },
+      cancel: abort,
     });
 
     return new Response(stream, {
       headers: {
-        "Content-Type": "text/event-stream",
+        "Content-Type": WORKFLOW_STREAM_CONTENT_TYPE,
         "Cache-Control": "no-cache, no-transform",
         Connection: "keep-alive",
         "Transfer-Encoding": "chunked",
@@ -169,6 +220,12 @@ export async function POST(req: Request) {
       },
     });
   } catch (error: unknown) {
+    if (error instanceof WorkflowRequestError) {
+      return toErrorResponse(
+        { error: error.message, code: error.code, details: error.details },
+        error.status
+      );
+    }
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error occurred";
     return new Response(JSON.stringify({ error: errorMessage }), {
@@ -0,0 +1,270 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import {
+  autoExpand,
+  AutoExpandError,
+  AutoExpandProgress,
+  DEFAULT_AUTO_EXPAND_OPTIONS,
+} from "@/lib/auto-expand";
+import { useFlowStore } from "@/lib/stores/flow-store";
+import { useTranslation } from "@/lib/stores/locale-store";
+import { findNode } from "@/lib/tree";
+
+type PanelState =
+  | { status: "idle" }
+  | {
+      status: "running";
+      label: string;
+      progress: AutoExpandProgress;
+      isStopping: boolean;
+    }
+  | {
+      status: "finished";
+      label: string;
+      progress: AutoExpandProgress;
+      error?: string;
+    };
+
+function NumberField({
+  label,
+  value,
+  onChange,
+  min,
+  max,
+  placeholder,
+  disabled,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  min: number;
+  max?: number;
+  placeholder?: string;
+  disabled?: boolean;
+}) {
+  return (
+    <label className="flex items-center justify-between gap-4 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <Input
+        type="number"
+        className="h-8 w-24 text-right"
+        min={min}
+        max={max}
+        step="any"
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+      />
+    </label>
+  );
+}
+
+// 从某个节点开始自动逐层拆分，显示进度并可以中途停止
+export function AutoExpandPanel() {
+  const { flowData, autoExpandNodeId, setAutoExpandNodeId } = useFlowStore();
+  const { t } = useTranslation();
+  const [levels, setLevels] = useState(
+    String(DEFAULT_AUTO_EXPAND_OPTIONS.levels)
+  );
+  const [concurrency, setConcurrency] = useState(
+    String(DEFAULT_AUTO_EXPAND_OPTIONS.concurrency)
+  );
+  const [maxNodes, setMaxNodes] = useState(
+    String(DEFAULT_AUTO_EXPAND_OPTIONS.maxNodes)
+  );
+  const [minHours, setMinHours] = useState("");
+  const [state, setState] = useState<PanelState>({ status: "idle" });
+  const abortRef = useRef<AbortController | null>(null);
+
+  const node =
+    flowData && autoExpandNodeId ? findNode(flowData, autoExpandNodeId) : null;
+  const isRunning = state.status === "running";
+
+  // 切换到其他节点时回到设置界面，进行中的展开不受影响
+  useEffect(() => {
+    setState((current) =>
+      current.status === "running" ? current : { status: "idle" }
+    );
+  }, [autoExpandNodeId]);
+
+  if (!node && !isRunning) return null;
+
+  const start = async () => {
+    if (!node) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const initial = { completed: 0, failed: 0, remaining: 0 };
+    const label = node.label;
+    setState({
+      status: "running",
+      label,
+      progress: initial,
+      isStopping: false,
+    });
+
+    try {
+      const progress = await autoExpand(
+        node.id,
+        {
+          levels: Math.max(1, Math.round(Number(levels) || 1)),
+          concurrency: Math.max(1, Math.round(Number(concurrency) || 1)),
+          maxNodes: Math.max(1, Number(maxNodes) || Infinity),
+          minHours: minHours.trim() ? Number(minHours) : undefined,
+          signal: controller.signal,
+        },
+        (progress) =>
+          setState((current) =>
+            current.status === "running" ? { ...current, progress } : current
+          )
+      );
+      setState({ status: "finished", label, progress });
+    } catch (error) {
+      setState({
+        status: "finished",
+        label,
+        progress: initial,
+        error:
+          error instanceof AutoExpandError
+            ? t(`autoExpand.error.${error.code}`)
+            : error instanceof Error
+              ? error.message
+              : String(error),
+      });
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const stop = () => {
+    abortRef.current?.abort();
+    setState((current) =>
+      current.status === "running" ? { ...current, isStopping: true } : current
+    );
+  };
+
+  const close = () => {
+    setState({ status: "idle" });
+    setAutoExpandNodeId(null);
+  };
+
+  const hasBudget = Boolean(flowData?.timeBudget);
+
+  return (
+    <Card className="absolute bottom-4 left-4 z-20 w-80 shadow-lg">
+      <CardContent className="flex flex-col gap-3 p-4">
+        <div className="flex items-center gap-2">
+          <div className="min-w-0 flex-1">
+            <div className="text-sm text-muted-foreground">
+              {t("autoExpand.title")}
+            </div>
+            <div className="truncate font-medium">
+              {state.status === "idle" ? node?.label : state.label}
+            </div>
+          </div>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={close}
+            disabled={isRunning}
+            title={t("common.close")}
+          >
+            <X />
+          </Button>
+        </div>
+
+        {state.status === "idle" && (
+          <>
+            <NumberField
+              label={t("autoExpand.levels")}
+              value={levels}
+              onChange={setLevels}
+              min={1}
+              max={6}
+            />
+            <NumberField
+              label={t("autoExpand.concurrency")}
+              value={concurrency}
+              onChange={setConcurrency}
+              min={1}
+              max={8}
+            />
+            <NumberField
+              label={t("autoExpand.maxNodes")}
+              value={maxNodes}
+              onChange={setMaxNodes}
+              min={1}
+            />
+            <NumberField
+              label={t("autoExpand.minHours")}
+              value={minHours}
+              onChange={setMinHours}
+              min={0}
+              placeholder={
+                hasBudget ? t("common.unlimited") : t("autoExpand.needsBudget")
+              }
+              disabled={!hasBudget}
+            />
+            <Button onClick={start}>{t("autoExpand.start")}</Button>
+          </>
+        )}
+
+        {state.status !== "idle" && (
+          <>
+            <Progress
+              value={
+                ((state.progress.completed + state.progress.failed) /
+                  Math.max(
+                    1,
+                    state.progress.completed +
+                      state.progress.failed +
+                      state.progress.remaining
+                  )) *
+                100
+              }
+              className="h-2"
+            />
+            <div className="text-sm text-muted-foreground">
+              {t("autoExpand.completed", { count: state.progress.completed })}
+              {state.progress.failed > 0 &&
+                t("autoExpand.failed", { count: state.progress.failed })}
+              {state.status === "running" &&
+                t("autoExpand.remaining", {
+                  count: state.progress.remaining,
+                })}
+            </div>
+            {state.status === "finished" && state.error && (
+              <div className="text-sm text-destructive">{state.error}</div>
+            )}
+            {state.status === "running" ? (
+              <Button
+                variant="outline"
+                onClick={stop}
+                disabled={state.isStopping}
+              >
+                {state.isStopping ? (
+                  <>
+                    <Loader2 className="animate-spin" />
+                    {t("autoExpand.stopping")}
+                  </>
+                ) : (
+                  t("autoExpand.stop")
+                )}
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={close}>
+                {t("autoExpand.done")}
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
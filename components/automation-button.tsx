@@ -0,0 +1,91 @@
+"use client";
+
+import React from "react";
+import { Loader2, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { assessAutomation, RejectedRequestError } from "@/lib/llm";
+import { useFlowStore } from "@/lib/stores/flow-store";
+import { useTranslation } from "@/lib/stores/locale-store";
+
+// 请求 AI 提效评估；指定 nodeId 时只评估该环节及其子环节
+export function AssessAutomationButton({
+  nodeId = null,
+  compact,
+  disabled,
+}: {
+  nodeId?: string | null;
+  // 节点悬停工具栏中只显示图标
+  compact?: boolean;
+  disabled?: boolean;
+}) {
+  const {
+    flowData,
+    modelConfig,
+    assessingNodeIds,
+    setAssessing,
+    applyAutomation,
+    setRequestError,
+  } = useFlowStore();
+  const { t } = useTranslation();
+  // 评估整棵树与评估根节点是同一个请求
+  const assessingId = nodeId ?? flowData?.id;
+  const isAssessing = !!assessingId && assessingNodeIds.includes(assessingId);
+
+  const handleAssess = async () => {
+    if (!flowData || !assessingId || isAssessing) return;
+    setAssessing(assessingId, true);
+    setRequestError(null);
+    try {
+      const assessments = await assessAutomation(flowData, nodeId, {
+        model: modelConfig,
+      });
+      applyAutomation(assessments);
+    } catch (error) {
+      // 被限流或超出上限时与拆解请求一样显示在画布上方
+      if (error instanceof RejectedRequestError) {
+        setRequestError(error.toBody());
+        return;
+      }
+      console.error("Error assessing automation:", error);
+      window.alert(
+        t("assess.failed", {
+          message: error instanceof Error ? error.message : String(error),
+        })
+      );
+    } finally {
+      setAssessing(assessingId, false);
+    }
+  };
+
+  const icon = isAssessing ? (
+    <Loader2 className="animate-spin" />
+  ) : (
+    <Sparkles />
+  );
+
+  if (compact) {
+    return (
+      <Button
+        size="icon"
+        variant="ghost"
+        className="nodrag h-6 w-6 [&_svg]:size-3"
+        onClick={handleAssess}
+        disabled={disabled || isAssessing}
+        title={t("assess.title")}
+      >
+        {icon}
+      </Button>
+    );
+  }
+
+  return (
+    <Button
+      variant="outline"
+      onClick={handleAssess}
+      disabled={disabled || isAssessing || !flowData}
+    >
+      {icon}
+      {isAssessing ? t("assess.running") : t("assess.button")}
+    </Button>
+  );
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import React from "react";
+import { Database, DatabaseZap } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useFlowStore } from "@/lib/stores/flow-store";
+import { useTranslation } from "@/lib/stores/locale-store";
+
+// 切换是否复用服务端缓存的拆解结果，关闭后每次都重新调用模型
+export function CacheToggle({ disabled }: { disabled?: boolean }) {
+  const { bypassCache, setBypassCache } = useFlowStore();
+  const { t } = useTranslation();
+
+  return (
+    <Button
+      size="icon"
+      variant={bypassCache ? "default" : "outline"}
+      onClick={() => setBypassCache(!bypassCache)}
+      disabled={disabled}
+      title={t(bypassCache ? "cache.bypassed" : "cache.enabled")}
+      aria-pressed={bypassCache}
+    >
+      {bypassCache ? <DatabaseZap /> : <Database />}
+    </Button>
+  );
+}
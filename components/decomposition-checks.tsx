@@ -0,0 +1,38 @@
+"use client";
+
+import React from "react";
+import { Check, X } from "lucide-react";
+import { useTranslation } from "@/lib/stores/locale-store";
+import { DecompositionCheck, describeCheck } from "@/lib/workflow-stream";
+
+// 服务端校验结果，悬停显示详细说明
+export function DecompositionChecks({
+  checks,
+}: {
+  checks: DecompositionCheck[];
+}) {
+  const { locale, t } = useTranslation();
+
+  return (
+    <div className="flex gap-1">
+      {checks.map((check) => (
+        <div
+          key={check.id}
+          title={describeCheck(check, locale)}
+          className={`flex items-center gap-0.5 rounded-md px-1.5 py-0.5 text-[10px] ${
+            check.passed
+              ? "bg-muted text-muted-foreground"
+              : "bg-destructive/10 text-destructive"
+          }`}
+        >
+          {check.passed ? (
+            <Check className="h-2.5 w-2.5" />
+          ) : (
+            <X className="h-2.5 w-2.5" />
+          )}
+          {t(`checks.${check.id}`)}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import React, { useState } from "react";
+import { getRectOfNodes, getTransformForBounds, useReactFlow } from "reactflow";
+import { toPng, toSvg } from "html-to-image";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useFlowStore, FlowData } from "@/lib/stores/flow-store";
+import { useTranslation } from "@/lib/stores/locale-store";
+import {
+  toCanonicalJSON,
+  toCSV,
+  toMarkdownOutline,
+  toMermaid,
+} from "@/lib/exporters";
+import { downloadText, downloadURL, toFilename } from "@/lib/download";
+import { MessageKey } from "@/lib/i18n";
+
+const IMAGE_PADDING = 40;
+
+interface TextExporter {
+  label: MessageKey;
+  extension: string;
+  type: string;
+  serialize: (root: FlowData) => string;
+}
+
+const TEXT_EXPORTERS: TextExporter[] = [
+  {
+    label: "export.markdown",
+    extension: "md",
+    type: "text/markdown",
+    serialize: toMarkdownOutline,
+  },
+  {
+    label: "export.json",
+    extension: "json",
+    type: "application/json",
+    serialize: toCanonicalJSON,
+  },
+  {
+    label: "export.csv",
+    extension: "csv",
+    type: "text/csv",
+    serialize: toCSV,
+  },
+  {
+    label: "export.mermaid",
+    extension: "mmd",
+    type: "text/plain",
+    serialize: toMermaid,
+  },
+];
+
+// 工具栏中的导出菜单
+export function ExportMenu() {
+  const { flowData } = useFlowStore();
+  const { getNodes } = useReactFlow();
+  const { t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!flowData) return null;
+  const filename = toFilename(flowData.label);
+
+  const exportText = (exporter: TextExporter) => {
+    downloadText(
+      `${filename}.${exporter.extension}`,
+      exporter.serialize(flowData),
+      exporter.type
+    );
+    setIsOpen(false);
+  };
+
+  // 按所有节点的范围渲染画布，而不是只渲染当前可见的部分
+  const exportImage = async (format: "svg" | "png") => {
+    setIsOpen(false);
+    const viewport = document.querySelector<HTMLElement>(
+      ".react-flow__viewport"
+    );
+    if (!viewport) return;
+
+    const bounds = getRectOfNodes(getNodes());
+    const width = bounds.width + IMAGE_PADDING * 2;
+    const height = bounds.height + IMAGE_PADDING * 2;
+    const [x, y, zoom] = getTransformForBounds(bounds, width, height, 0.5, 2);
+    const options = {
+      backgroundColor: "#ffffff",
+      width,
+      height,
+      style: {
+        width: `${width}px`,
+        height: `${height}px`,
+        transform: `translate(${x}px, ${y}px) scale(${zoom})`,
+      },
+    };
+
+    try {
+      const dataUrl =
+        format === "svg"
+          ? await toSvg(viewport, options)
+          : await toPng(viewport, options);
+      downloadURL(`${filename}.${format}`, dataUrl);
+    } catch (error) {
+      console.error("Error exporting image:", error);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Button variant="outline" onClick={() => setIsOpen(!isOpen)}>
+        <Download />
+        {t("export.button")}
+      </Button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-50 w-40 rounded-md border bg-popover p-1 text-popover-foreground shadow-md">
+          {TEXT_EXPORTERS.map((exporter) => (
+            <button
+              key={exporter.extension}
+              className="w-full rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent"
+              onClick={() => exportText(exporter)}
+            >
+              {t(exporter.label)}
+            </button>
+          ))}
+          <button
+            className="w-full rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent"
+            onClick={() => exportImage("svg")}
+          >
+            {t("export.svg")}
+          </button>
+          <button
+            className="w-full rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent"
+            onClick={() => exportImage("png")}
+          >
+            {t("export.png")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+"use client";
+
+import React from "react";
+import { ChevronRight, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useFlowStore } from "@/lib/stores/flow-store";
+import { useTranslation } from "@/lib/stores/locale-store";
+import { findPath } from "@/lib/tree";
+
+// 聚焦模式下显示从根节点到当前分支的路径，点击上级返回
+export function FocusBreadcrumb() {
+  const { flowData, focusNodeId, setFocusNodeId } = useFlowStore();
+  const { t } = useTranslation();
+  if (!flowData || !focusNodeId) return null;
+
+  const path = findPath(flowData, focusNodeId);
+  if (path.length === 0) return null;
+
+  return (
+    <div className="absolute left-4 top-4 z-10 flex max-w-[70%] items-center gap-1 rounded-md border bg-background/95 px-2 py-1 text-sm shadow-sm">
+      {path.map((node, index) => {
+        const isCurrent = index === path.length - 1;
+        return (
+          <React.Fragment key={node.id}>
+            {index > 0 && (
+              <ChevronRight className="h-3 w-3 shrink-0 text-muted-foreground" />
+            )}
+            <button
+              className={`truncate ${
+                isCurrent
+                  ? "font-medium"
+                  : "text-muted-foreground hover:text-foreground hover:underline"
+              }`}
+              onClick={() => setFocusNodeId(index === 0 ? null : node.id)}
+              disabled={isCurrent}
+              title={node.label}
+            >
+              {node.label}
+            </button>
+          </React.Fragment>
+        );
+      })}
+      <Button
+        size="icon"
+        variant="ghost"
+        className="ml-1 h-6 w-6 shrink-0"
+        onClick={() => setFocusNodeId(null)}
+        title={t("focus.exit")}
+      >
+        <X />
+      </Button>
+    </div>
+  );
+}
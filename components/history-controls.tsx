@@ -0,0 +1,70 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { Redo2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useFlowStore } from "@/lib/stores/flow-store";
+import { useTranslation } from "@/lib/stores/locale-store";
+
+// 输入框内保留浏览器自带的撤销
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target.tagName === "INPUT" ||
+    target.tagName === "TEXTAREA" ||
+    target.tagName === "SELECT"
+  );
+}
+
+// 撤销 / 重做按钮，并绑定 Ctrl+Z、Ctrl+Shift+Z（macOS 上为 Cmd）
+export function HistoryControls({ disabled }: { disabled?: boolean }) {
+  const { undo, redo, past, future } = useFlowStore();
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      if (isEditableTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === "z") {
+        event.preventDefault();
+        if (event.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if (key === "y" && !event.shiftKey) {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  return (
+    <div className="flex">
+      <Button
+        size="icon"
+        variant="outline"
+        className="rounded-r-none"
+        onClick={undo}
+        disabled={disabled || past.length === 0}
+        title={t("history.undo")}
+      >
+        <Undo2 />
+      </Button>
+      <Button
+        size="icon"
+        variant="outline"
+        className="rounded-l-none border-l-0"
+        onClick={redo}
+        disabled={disabled || future.length === 0}
+        title={t("history.redo")}
+      >
+        <Redo2 />
+      </Button>
+    </div>
+  );
+}
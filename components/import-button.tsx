@@ -0,0 +1,62 @@
+"use client";
+
+import React, { useRef } from "react";
+import { Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ImportError, importWorkflow } from "@/lib/importers";
+import { useProjectStore } from "@/lib/stores/project-store";
+import { useTranslation } from "@/lib/stores/locale-store";
+
+// 从 Markdown 大纲、JSON 或 CSV 文件导入工作流程，导入结果放在新项目中
+export function ImportButton({ disabled }: { disabled?: boolean }) {
+  const { createProject } = useProjectStore();
+  const { t } = useTranslation();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      const flowData = importWorkflow(
+        await file.text(),
+        t("import.rootLabel"),
+        file.name
+      );
+      await createProject(flowData.label, flowData);
+    } catch (error) {
+      console.error("Error importing workflow:", error);
+      window.alert(
+        t("import.failed", {
+          message:
+            error instanceof ImportError
+              ? t(`import.error.${error.code}`)
+              : error instanceof Error
+                ? error.message
+                : String(error),
+        })
+      );
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+      >
+        <Upload />
+        {t("import.button")}
+      </Button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".md,.markdown,.txt,.json,.csv"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+          e.target.value = "";
+        }}
+      />
+    </>
+  );
+}
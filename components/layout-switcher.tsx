@@ -0,0 +1,39 @@
+"use client";
+
+import React from "react";
+import { ArrowDown, ArrowRight, Sun } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useFlowStore } from "@/lib/stores/flow-store";
+import { useTranslation } from "@/lib/stores/locale-store";
+import { LayoutOrientation } from "@/lib/tree-layout";
+
+const ORIENTATIONS: { value: LayoutOrientation; icon: React.ReactNode }[] = [
+  { value: "top-down", icon: <ArrowDown /> },
+  { value: "left-right", icon: <ArrowRight /> },
+  { value: "radial", icon: <Sun /> },
+];
+
+// 切换流程图的排列方向
+export function LayoutSwitcher() {
+  const { layoutOrientation, setLayoutOrientation } = useFlowStore();
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex">
+      {ORIENTATIONS.map(({ value, icon }, index) => (
+        <Button
+          key={value}
+          size="icon"
+          variant={value === layoutOrientation ? "default" : "outline"}
+          className={`${index > 0 ? "rounded-l-none border-l-0" : ""} ${
+            index < ORIENTATIONS.length - 1 ? "rounded-r-none" : ""
+          }`}
+          onClick={() => setLayoutOrientation(value)}
+          title={t(`layout.${value}`)}
+        >
+          {icon}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { Languages } from "lucide-react";
+import { isLocale, LOCALE_LABELS, LOCALES } from "@/lib/i18n";
+import { useLocaleStore, useTranslation } from "@/lib/stores/locale-store";
+
+const selectClassName =
+  "h-9 rounded-md border border-input bg-transparent pl-8 pr-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+// 切换界面语言，新生成的工作流程树也使用该语言
+export function LocaleSwitcher() {
+  const { locale, t } = useTranslation();
+  const setLocale = useLocaleStore((state) => state.setLocale);
+
+  // 挂载后再读取保存的语言，见 useLocaleStore
+  useEffect(() => {
+    useLocaleStore.persist.rehydrate();
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale === "zh" ? "zh-CN" : locale;
+  }, [locale]);
+
+  return (
+    <div className="relative flex items-center">
+      <Languages className="pointer-events-none absolute left-2.5 h-4 w-4 text-muted-foreground" />
+      <select
+        className={selectClassName}
+        value={locale}
+        onChange={(e) => {
+          if (isLocale(e.target.value)) setLocale(e.target.value);
+        }}
+        aria-label={t("flow.locale")}
+        title={t("flow.locale")}
+      >
+        {LOCALES.map((item) => (
+          <option key={item} value={item}>
+            {LOCALE_LABELS[item]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
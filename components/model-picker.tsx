@@ -0,0 +1,109 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useFlowStore } from "@/lib/stores/flow-store";
+import { useTranslation } from "@/lib/stores/locale-store";
+import { ModelsResponse, ProviderId, isProviderId } from "@/lib/providers";
+
+const selectClassName =
+  "h-9 rounded-md border border-input bg-transparent px-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50";
+
+// 工具栏中的模型选择器：提供方、模型名称与温度
+export function ModelPicker({ disabled }: { disabled?: boolean }) {
+  const { modelConfig, setModelConfig } = useFlowStore();
+  const { t } = useTranslation();
+  const [catalog, setCatalog] = useState<ModelsResponse | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/models")
+      .then((response) => response.json() as Promise<ModelsResponse>)
+      .then((data) => {
+        if (cancelled) return;
+        setCatalog(data);
+        // 首次加载时采用服务端的默认配置
+        if (!useFlowStore.getState().modelConfig) {
+          setModelConfig(data.defaultConfig);
+        }
+      })
+      .catch((error) => console.error("Error loading models:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [setModelConfig]);
+
+  if (!catalog || !modelConfig) return null;
+
+  const provider = catalog.providers.find(
+    (item) => item.id === modelConfig.provider
+  );
+
+  const handleProviderChange = (id: ProviderId) => {
+    const next = catalog.providers.find((item) => item.id === id);
+    if (!next) return;
+    setModelConfig({
+      ...modelConfig,
+      provider: id,
+      model: next.defaultModel,
+      // 接口地址由服务端按提供方决定
+      baseURL: undefined,
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        className={selectClassName}
+        value={modelConfig.provider}
+        disabled={disabled}
+        onChange={(e) => {
+          if (isProviderId(e.target.value)) {
+            handleProviderChange(e.target.value);
+          }
+        }}
+        aria-label={t("model.provider")}
+      >
+        {catalog.providers.map((item) => (
+          <option key={item.id} value={item.id}>
+            {t(`provider.${item.id}`)}
+          </option>
+        ))}
+      </select>
+      <input
+        className={`${selectClassName} w-36`}
+        list="model-picker-options"
+        value={modelConfig.model}
+        disabled={disabled}
+        onChange={(e) =>
+          setModelConfig({ ...modelConfig, model: e.target.value })
+        }
+        aria-label={t("model.model")}
+      />
+      <datalist id="model-picker-options">
+        {provider?.models.map((model) => (
+          <option key={model} value={model} />
+        ))}
+      </datalist>
+      <input
+        className={`${selectClassName} w-16`}
+        type="number"
+        min={0}
+        max={2}
+        step={0.1}
+        value={modelConfig.temperature}
+        disabled={disabled}
+        onChange={(e) => {
+          const temperature = Number(e.target.value);
+          if (Number.isFinite(temperature)) {
+            setModelConfig({
+              ...modelConfig,
+              temperature: Math.min(2, Math.max(0, temperature)),
+            });
+          }
+        }}
+        title={t("model.temperature")}
+        aria-label={t("model.temperature")}
+      />
+    </div>
+  );
+}
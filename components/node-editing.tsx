@@ -0,0 +1,306 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  ListEnd,
+  ListStart,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AssessAutomationButton } from "@/components/automation-button";
+import { useFlowStore } from "@/lib/stores/flow-store";
+import { useTranslation } from "@/lib/stores/locale-store";
+import {
+  formatDuration,
+  isValidTimeBudget,
+  TIME_PERIODS,
+  TimeBudget,
+  TimePeriod,
+} from "@/lib/time-budget";
+
+const inlineInputClassName =
+  "nodrag w-full rounded-sm border border-input bg-transparent px-1 text-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+// 双击名称进行重命名
+export function EditableLabel({
+  nodeId,
+  label,
+  isEditing,
+  onEditingChange,
+  disabled,
+}: {
+  nodeId: string;
+  label: string;
+  isEditing: boolean;
+  onEditingChange: (isEditing: boolean) => void;
+  disabled?: boolean;
+}) {
+  const { renameNode } = useFlowStore();
+  const { t } = useTranslation();
+  const [value, setValue] = useState(label);
+
+  if (!isEditing || disabled) {
+    return (
+      <div
+        className={`text-sm font-medium leading-none ${
+          disabled ? "" : "cursor-text"
+        }`}
+        onDoubleClick={() => {
+          if (disabled) return;
+          setValue(label);
+          onEditingChange(true);
+        }}
+        title={disabled ? undefined : t("edit.rename")}
+      >
+        {label}
+      </div>
+    );
+  }
+
+  const commit = () => {
+    renameNode(nodeId, value);
+    onEditingChange(false);
+  };
+
+  return (
+    <input
+      autoFocus
+      className={inlineInputClassName}
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onFocus={(e) => e.target.select()}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+        if (e.key === "Escape") onEditingChange(false);
+      }}
+    />
+  );
+}
+
+// 点击比例进行修改，同级的其余环节按原比例分配剩余时间
+export function EditableRatio({
+  nodeId,
+  ratio,
+  disabled,
+}: {
+  nodeId: string;
+  ratio: number;
+  disabled?: boolean;
+}) {
+  const { setNodeRatio } = useFlowStore();
+  const { t } = useTranslation();
+  const [value, setValue] = useState<string | null>(null);
+  const percent = Math.round(ratio * 100);
+
+  if (value === null) {
+    return (
+      <button
+        className="nodrag hover:underline disabled:no-underline"
+        onClick={() => setValue(String(percent))}
+        disabled={disabled}
+        title={disabled ? undefined : t("edit.ratio")}
+      >
+        {percent}%
+      </button>
+    );
+  }
+
+  const commit = () => {
+    const next = Number(value);
+    if (Number.isFinite(next)) setNodeRatio(nodeId, next / 100);
+    setValue(null);
+  };
+
+  return (
+    <input
+      autoFocus
+      type="number"
+      min={0}
+      max={100}
+      className={`${inlineInputClassName} w-14 text-xs text-right`}
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onFocus={(e) => e.target.select()}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+        if (e.key === "Escape") setValue(null);
+      }}
+    />
+  );
+}
+
+// 根节点的总时间预算，清空小时数即取消预算
+export function EditableTimeBudget({
+  nodeId,
+  budget,
+  disabled,
+}: {
+  nodeId: string;
+  budget?: TimeBudget;
+  disabled?: boolean;
+}) {
+  const { patchFlowDataNode } = useFlowStore();
+  const { locale, t } = useTranslation();
+  const [draft, setDraft] = useState<{
+    hours: string;
+    period: TimePeriod;
+  } | null>(null);
+
+  if (!draft || disabled) {
+    // 只读时没有预算就不显示
+    if (disabled && !budget) return null;
+    return (
+      <button
+        className="nodrag text-xs text-muted-foreground hover:underline disabled:no-underline"
+        onClick={() =>
+          setDraft({
+            hours: budget ? String(budget.hours) : "",
+            period: budget?.period ?? "week",
+          })
+        }
+        disabled={disabled}
+        title={disabled ? undefined : t("budget.title")}
+      >
+        {budget
+          ? t("budget.total", {
+              duration: formatDuration(budget, 1, locale),
+            })
+          : t("budget.set")}
+      </button>
+    );
+  }
+
+  const commit = () => {
+    if (!draft.hours.trim()) {
+      patchFlowDataNode(nodeId, { timeBudget: undefined });
+    } else {
+      const next = { hours: Number(draft.hours), period: draft.period };
+      if (isValidTimeBudget(next)) {
+        patchFlowDataNode(nodeId, { timeBudget: next });
+      }
+    }
+    setDraft(null);
+  };
+
+  return (
+    <div
+      className="flex items-center gap-1 text-xs"
+      onBlur={(e) => {
+        // 焦点在小时数与周期之间切换时不提交
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+          commit();
+        }
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+        if (e.key === "Escape") setDraft(null);
+      }}
+    >
+      <input
+        autoFocus
+        type="number"
+        min={0}
+        step="any"
+        placeholder={t("budget.hours")}
+        className={`${inlineInputClassName} w-16 text-xs text-right`}
+        value={draft.hours}
+        onChange={(e) => setDraft({ ...draft, hours: e.target.value })}
+        onFocus={(e) => e.target.select()}
+      />
+      {t("budget.hoursPer")}
+      <select
+        className={`${inlineInputClassName} w-auto text-xs`}
+        value={draft.period}
+        onChange={(e) =>
+          setDraft({ ...draft, period: e.target.value as TimePeriod })
+        }
+      >
+        {TIME_PERIODS.map((period) => (
+          <option key={period} value={period}>
+            {t(`duration.${period}`)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+// 悬停时显示的编辑按钮：插入同级、左右移动、AI 提效评估、删除子树
+export function NodeEditToolbar({
+  nodeId,
+  siblingIndex,
+  siblingCount,
+  onInserted,
+}: {
+  nodeId: string;
+  siblingIndex: number;
+  siblingCount: number;
+  onInserted: (newNodeId: string) => void;
+}) {
+  const { insertSibling, deleteNode, moveNode } = useFlowStore();
+  const { t } = useTranslation();
+
+  const insert = (position: "before" | "after") => {
+    const newNodeId = insertSibling(nodeId, position, t("edit.newStep"));
+    if (newNodeId) onInserted(newNodeId);
+  };
+
+  const buttonClassName = "nodrag h-6 w-6 [&_svg]:size-3";
+
+  return (
+    <div className="absolute -top-3 right-2 flex items-center rounded-md border bg-background shadow-sm">
+      <Button
+        size="icon"
+        variant="ghost"
+        className={buttonClassName}
+        onClick={() => insert("before")}
+        title={t("edit.insertBefore")}
+      >
+        <ListStart />
+      </Button>
+      <Button
+        size="icon"
+        variant="ghost"
+        className={buttonClassName}
+        onClick={() => insert("after")}
+        title={t("edit.insertAfter")}
+      >
+        <ListEnd />
+      </Button>
+      <Button
+        size="icon"
+        variant="ghost"
+        className={buttonClassName}
+        onClick={() => moveNode(nodeId, -1)}
+        disabled={siblingIndex === 0}
+        title={t("edit.moveLeft")}
+      >
+        <ChevronLeft />
+      </Button>
+      <Button
+        size="icon"
+        variant="ghost"
+        className={buttonClassName}
+        onClick={() => moveNode(nodeId, 1)}
+        disabled={siblingIndex === siblingCount - 1}
+        title={t("edit.moveRight")}
+      >
+        <ChevronRight />
+      </Button>
+      <AssessAutomationButton nodeId={nodeId} compact />
+      <Button
+        size="icon"
+        variant="ghost"
+        className={`${buttonClassName} hover:text-destructive`}
+        onClick={() => deleteNode(nodeId)}
+        title={t("edit.delete")}
+      >
+        <Trash2 />
+      </Button>
+    </div>
+  );
+}
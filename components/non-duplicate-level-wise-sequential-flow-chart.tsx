@@ -1,6 +1,12 @@
 "use client";
 
-import React, { useState, useCallback, useEffect, useMemo } from "react";
+import React, {
+  useState,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+} from "react";
 import ReactFlow, {
   Node,
   Edge,
@@ -10,15 +16,89 @@ import ReactFlow, {
   Handle,
   Position,
   MiniMap,
+  ReactFlowProvider,
+  useReactFlow,
 } from "reactflow";
 import "reactflow/dist/style.css";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Loader2 } from "lucide-react";
+import {
+  ChevronDown,
+  ChevronUp,
+  Focus,
+  ListTree,
+  Loader2,
+  RefreshCw,
+} from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { useFlowStore, FlowData } from "@/lib/stores/flow-store";
-import { decomposeWorkflow } from "@/lib/llm";
+import {
+  decomposeWorkflow,
+  isAbortError,
+  RejectedRequestError,
+  toRequestError,
+} from "@/lib/llm";
+import { DecompositionCheck } from "@/lib/workflow-stream";
+import { ModelPicker } from "@/components/model-picker";
+import { LocaleSwitcher } from "@/components/locale-switcher";
+import { StopControls } from "@/components/stop-controls";
+import { CacheToggle } from "@/components/cache-toggle";
+import { PromptTemplatePicker } from "@/components/prompt-template-picker";
+import { ProjectSidebar } from "@/components/project-sidebar";
+import { ExportMenu } from "@/components/export-menu";
+import { ImportButton } from "@/components/import-button";
+import { DecompositionChecks } from "@/components/decomposition-checks";
+import { RegeneratePanel } from "@/components/regenerate-panel";
+import { AutoExpandPanel } from "@/components/auto-expand-panel";
+import { LayoutSwitcher } from "@/components/layout-switcher";
+import { FocusBreadcrumb } from "@/components/focus-breadcrumb";
+import { ViewSwitcher } from "@/components/view-switcher";
+import { TimeChartView } from "@/components/time-chart-view";
+import { RequestErrorBanner } from "@/components/request-error-banner";
+import { SearchBox } from "@/components/search-box";
+import { HistoryControls } from "@/components/history-controls";
+import { ShareButton } from "@/components/share-button";
+import { SharedViewBanner } from "@/components/shared-view-banner";
+import { AssessAutomationButton } from "@/components/automation-button";
+import {
+  EditableLabel,
+  EditableRatio,
+  EditableTimeBudget,
+  NodeEditToolbar,
+} from "@/components/node-editing";
+import { startAutosave, useProjectStore } from "@/lib/stores/project-store";
+import { getActivePromptTemplate } from "@/lib/stores/template-store";
+import { useTranslation } from "@/lib/stores/locale-store";
+import { getTreeLanguage } from "@/lib/i18n";
+import {
+  clearShareHash,
+  decodeSharedFlowData,
+  readShareHash,
+  ShareErrorCode,
+  ShareLinkError,
+} from "@/lib/share";
+import { formatDuration, formatPercent, TimeBudget } from "@/lib/time-budget";
+import {
+  anchorLayout,
+  computeTreeLayout,
+  LayoutOrientation,
+  Point,
+} from "@/lib/tree-layout";
+import {
+  countDescendants,
+  findNode,
+  findParent,
+  pruneCollapsed,
+  walkTree,
+} from "@/lib/tree";
+import {
+  AutomationAssessment,
+  AutomationLevel,
+  computeSavedShares,
+  getAutomationLevel,
+  hasAutomationAssessments,
+} from "@/lib/automation";
 
 // 在文件顶部添加新的类型定义
 interface NodeData {
@@ -27,14 +107,67 @@ interface NodeData {
   depth: number;
   isNew?: boolean;
   isHighlighted?: boolean;
+  // 当前选中的搜索结果
+  isActive?: boolean;
+  checks?: DecompositionCheck[];
+  isRoot: boolean;
+  // 聚焦模式下作为画布根节点显示
+  isViewRoot: boolean;
+  // 折叠后隐藏的子孙节点数，未折叠时为 0
+  hiddenCount: number;
+  siblingIndex: number;
+  siblingCount: number;
+  // 占根节点总用时的比例
+  shareOfRoot: number;
+  // 根节点的时间预算，每个节点都带上以便显示绝对用时
+  timeBudget?: TimeBudget;
+  automation?: AutomationAssessment;
+  // 按评估结果汇总的可节省用时比例，整棵树都没有评估时为空
+  savedShare?: number;
 }
 
+// 按 AI 接管程度给节点着色
+const AUTOMATION_BORDER_CLASSES: Record<AutomationLevel, string> = {
+  high: "border-l-4 border-l-emerald-500",
+  medium: "border-l-4 border-l-amber-400",
+  low: "border-l-4 border-l-slate-300",
+};
+
+const AUTOMATION_CHIP_CLASSES: Record<AutomationLevel, string> = {
+  high: "bg-emerald-500/15 text-emerald-700 dark:text-emerald-300",
+  medium: "bg-amber-400/15 text-amber-700 dark:text-amber-300",
+  low: "bg-muted text-muted-foreground",
+};
+
 // 自定义节点组件
 const CustomNode = ({ data, id }: NodeProps<NodeData>) => {
-  const { updateFlowDataNode, flowData } = useFlowStore();
+  const {
+    updateFlowDataNode,
+    patchFlowDataNode,
+    flowData,
+    modelConfig,
+    editingNodeId,
+    setEditingNodeId,
+    setRegeneratingNodeId,
+    setAutoExpandNodeId,
+    toggleCollapsed,
+    setFocusNodeId,
+    setRequestError,
+    bypassCache,
+    isReadOnly,
+    beginHistoryGroup,
+    endHistoryGroup,
+  } = useFlowStore();
+  const { locale, t } = useTranslation();
   const [isDecomposing, setIsDecomposing] = useState(false);
+  // 进行中的拆解请求，以及停止时是否保留已收到的子环节
+  const abortRef = useRef<AbortController | null>(null);
+  const keepPartialRef = useRef(true);
   const [isNew, setIsNew] = useState(data.isNew || false);
   const [isHovered, setIsHovered] = useState(false);
+  const automationLevel = data.automation
+    ? getAutomationLevel(data.automation.score)
+    : null;
 
   // 当节点是新创建的时，添加动画效果
   useEffect(() => {
@@ -62,79 +195,276 @@ const CustomNode = ({ data, id }: NodeProps<NodeData>) => {
   const handleDecompose = async () => {
     if (isDecomposing || data.label.length <= 1 || hasChildren) return;
     setIsDecomposing(true);
+    // 一次流式拆解只占一步撤销记录
+    beginHistoryGroup();
+    const children: FlowData[] = [];
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+    setRequestError(null);
 
     try {
-      const children: FlowData[] = [];
-
       // 使用回调函数处理流式结果
-      await decomposeWorkflow(data.label, flowData, id, (part) => {
-        const newChild: FlowData = {
-          id: `node-${Math.random()}`,
-          label: part.text,
-          depth: data.depth + 1,
-          ratio: part.ratio,
-          children: [],
-          isNew: true,
-        };
-        children.push(newChild);
-        // 立即更新节点
+      const steps = await decomposeWorkflow(
+        data.label,
+        flowData,
+        id,
+        (part) => {
+          const newChild: FlowData = {
+            id: `node-${Math.random()}`,
+            label: part.text,
+            depth: data.depth + 1,
+            ratio: part.ratio,
+            children: [],
+            isNew: true,
+          };
+          children.push(newChild);
+          // 立即更新节点
+          updateFlowDataNode(id, [...children]);
+        },
+        {
+          model: modelConfig,
+          template: getActivePromptTemplate(),
+          language: flowData ? getTreeLanguage(flowData) : locale,
+          bypassCache,
+          signal: abortController.signal,
+          // 服务端重新生成时清空本轮已经显示的子节点
+          onRetry: () => {
+            children.length = 0;
+            updateFlowDataNode(id, []);
+          },
+          onValidation: (checks) => patchFlowDataNode(id, { checks }),
+        }
+      );
+      // 流式显示的是模型给出的原始比例，结束后换成规范化后的结果
+      if (children.length > 0) {
+        children.forEach((child, index) => {
+          children[index] = {
+            ...child,
+            ratio: steps[index]?.ratio ?? child.ratio,
+          };
+        });
         updateFlowDataNode(id, [...children]);
-      });
-
-      // 动画完成后移除 isNew 标记
-      setTimeout(() => {
-        const updatedChildren = children.map((child) => ({
-          ...child,
-          isNew: false,
-        }));
-        updateFlowDataNode(id, updatedChildren);
-      }, 500);
+      }
     } catch (error) {
-      console.error("Error decomposing node:", error);
+      if (isAbortError(error)) {
+        if (!keepPartialRef.current) {
+          children.length = 0;
+          updateFlowDataNode(id, []);
+        }
+      } else {
+        if (!(error instanceof RejectedRequestError)) {
+          console.error("Error decomposing node:", error);
+        }
+        setRequestError(toRequestError(error));
+        // 出错时模型的输出不完整，撤回已经显示的子环节，由用户重新拆分
+        if (children.length > 0) {
+          children.length = 0;
+          updateFlowDataNode(id, []);
+          patchFlowDataNode(id, { checks: undefined });
+        }
+      }
     } finally {
+      abortRef.current = null;
       setIsDecomposing(false);
+      // 动画完成后移除 isNew 标记，再结束这一步撤销记录
+      setTimeout(() => {
+        if (children.length > 0) {
+          const updatedChildren = children.map((child) => ({
+            ...child,
+            isNew: false,
+          }));
+          updateFlowDataNode(id, updatedChildren);
+        }
+        endHistoryGroup();
+      }, 500);
     }
   };
 
+  const stopDecompose = (keepPartial: boolean) => {
+    keepPartialRef.current = keepPartial;
+    abortRef.current?.abort();
+  };
+
   return (
     <Card
       className={`w-[200px] transition-all duration-500 ${
         isNew ? "scale-0 translate-y-[-20px]" : "scale-100 translate-y-0"
       } ${
         data.isHighlighted === false ? "opacity-10 z-0" : "opacity-100 z-10"
+      } ${automationLevel ? AUTOMATION_BORDER_CLASSES[automationLevel] : ""} ${
+        data.isActive ? "ring-2 ring-primary ring-offset-2" : ""
       }`}
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
     >
-      <CardContent className="p-4 flex flex-col gap-2">
-        <div className="flex items-center justify-between">
-          <div className="text-sm font-medium leading-none">{data.label}</div>
+      <CardContent className="relative p-4 flex flex-col gap-2">
+        {isHovered && !data.isRoot && !isDecomposing && !isReadOnly && (
+          <NodeEditToolbar
+            nodeId={id}
+            siblingIndex={data.siblingIndex}
+            siblingCount={data.siblingCount}
+            onInserted={setEditingNodeId}
+          />
+        )}
+        <div className="flex items-center justify-between gap-2">
+          <EditableLabel
+            nodeId={id}
+            label={data.label}
+            isEditing={editingNodeId === id}
+            onEditingChange={(isEditing) =>
+              setEditingNodeId(isEditing ? id : null)
+            }
+            disabled={isReadOnly}
+          />
           <div className="text-xs text-muted-foreground rounded-md bg-muted px-2 py-1">
-            Level {data.depth}
+            {t("node.level", { depth: data.depth })}
           </div>
         </div>
         <div className="flex flex-col gap-1.5">
           <Progress value={data.ratio * 100} className="h-2" />
           <div className="text-xs text-muted-foreground text-right">
-            用时比例 {Math.round(data.ratio * 100)}%
+            {t("node.ratio")}{" "}
+            <EditableRatio
+              nodeId={id}
+              ratio={data.ratio}
+              disabled={data.isRoot || isReadOnly}
+            />
           </div>
+          {!data.isRoot && (
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>
+                {t("node.shareOfRoot", {
+                  percent: formatPercent(data.shareOfRoot),
+                })}
+              </span>
+              {data.timeBudget && (
+                <span>
+                  {formatDuration(data.timeBudget, data.shareOfRoot, locale)}
+                </span>
+              )}
+            </div>
+          )}
+          {data.isRoot && (
+            <div className="text-right">
+              <EditableTimeBudget
+                nodeId={id}
+                budget={data.timeBudget}
+                disabled={isReadOnly}
+              />
+            </div>
+          )}
         </div>
-        {!hasChildren && data.label.length > 1 && (
-          <Button
-            size="sm"
-            variant="outline"
-            onClick={handleDecompose}
-            disabled={isDecomposing}
-          >
-            {isDecomposing ? (
-              <>
-                <Loader2 className="mr-2 h-3 w-3 animate-spin" />
-                拆分中...
-              </>
+        {data.checks && <DecompositionChecks checks={data.checks} />}
+        {(data.automation || data.savedShare !== undefined) && (
+          <div className="flex items-center justify-between gap-2 text-xs">
+            {data.automation && automationLevel ? (
+              <div
+                className={`rounded-md px-1.5 py-0.5 text-[10px] ${AUTOMATION_CHIP_CLASSES[automationLevel]}`}
+                title={[
+                  t(`automation.${automationLevel}`),
+                  data.automation.approach,
+                  data.automation.tools.length > 0 &&
+                    t("node.automationTools", {
+                      tools: data.automation.tools.join(t("list.separator")),
+                    }),
+                  t("node.automationReduction", {
+                    percent: formatPercent(data.automation.timeReduction),
+                  }),
+                ]
+                  .filter(Boolean)
+                  .join("\n")}
+              >
+                AI {formatPercent(data.automation.score)}
+              </div>
             ) : (
-              "拆分"
+              <span />
             )}
-          </Button>
+            {data.savedShare !== undefined && (
+              <span className="text-muted-foreground">
+                {data.isRoot ? t("node.reclaimable") : t("node.savable")}{" "}
+                {data.timeBudget
+                  ? `${formatDuration(
+                      data.timeBudget,
+                      data.shareOfRoot * data.savedShare,
+                      locale
+                    )} (${formatPercent(data.savedShare)})`
+                  : formatPercent(data.savedShare)}
+              </span>
+            )}
+          </div>
+        )}
+        {/* 只读查看分享的工作流程时不显示拆分相关的操作 */}
+        {!isReadOnly && (
+          <div className="flex gap-1 [&>*:first-child]:flex-1">
+            {(!hasChildren || isDecomposing) && data.label.length > 1 && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleDecompose}
+                disabled={isDecomposing}
+              >
+                {isDecomposing ? (
+                  <>
+                    <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                    {t("node.decomposing")}
+                  </>
+                ) : (
+                  t("node.decompose")
+                )}
+              </Button>
+            )}
+            {isDecomposing && <StopControls compact onStop={stopDecompose} />}
+            {hasChildren && !isDecomposing && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-muted-foreground"
+                onClick={() => setRegeneratingNodeId(id)}
+              >
+                <RefreshCw className="mr-2 h-3 w-3" />
+                {t("node.regenerate")}
+              </Button>
+            )}
+            {data.label.length > 1 && !isDecomposing && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="px-2 text-muted-foreground"
+                onClick={() => setAutoExpandNodeId(id)}
+                title={t("node.autoExpand")}
+              >
+                <ListTree className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        )}
+        {hasChildren && (
+          <div className="absolute -bottom-3 right-3 flex items-center rounded-full border bg-background text-xs text-muted-foreground shadow-sm">
+            <button
+              className="nodrag flex items-center gap-0.5 px-2 py-0.5 hover:text-foreground"
+              onClick={() => toggleCollapsed(id)}
+              title={
+                data.hiddenCount > 0 ? t("node.expand") : t("node.collapse")
+              }
+            >
+              {data.hiddenCount > 0 ? (
+                <>
+                  <ChevronDown className="h-3 w-3" />+{data.hiddenCount}
+                </>
+              ) : (
+                <ChevronUp className="h-3 w-3" />
+              )}
+            </button>
+            {!data.isViewRoot && (
+              <button
+                className="nodrag border-l px-2 py-0.5 hover:text-foreground"
+                onClick={() => setFocusNodeId(id)}
+                title={t("node.focus")}
+              >
+                <Focus className="h-3 w-3" />
+              </button>
+            )}
+          </div>
         )}
         <Handle
           type="target"
@@ -185,19 +515,31 @@ interface DecomposePart {
 //   }
 // };
 
-// 修改 convertFlowDataToNodesAndEdges 函数中的边处理逻辑
+// 按布局结果生成节点和边，节点位置由 computeTreeLayout 计算。
+// view 是实际显示的部分（聚焦的子树、去掉折叠的分支），data 是完整的树
 const convertFlowDataToNodesAndEdges = (
   data: FlowData,
-  parentId: string | null = null,
-  x = 0,
-  y = 0,
-  highlightedNodes: Set<string> | null = null
+  view: FlowData,
+  layout: Map<string, Point>,
+  orientation: LayoutOrientation,
+  collapsedIds: Set<string>,
+  highlightedNodes: Set<string> | null = null,
+  activeNodeId: string | null = null
 ): { nodes: Node[]; edges: Edge[] } => {
   const nodes: Node[] = [];
   const edges: Edge[] = [];
-  const NODE_WIDTH = 200;
-  const NODE_SPACING = 50;
-  const VERTICAL_SPACING = 150;
+  // 从左到右排列时父子之间走左右两侧的连接点，同级之间走上下两侧
+  const childHandles =
+    orientation === "left-right"
+      ? { sourceHandle: "right", targetHandle: "left" }
+      : {};
+  const siblingHandles =
+    orientation === "left-right"
+      ? {}
+      : { sourceHandle: "right", targetHandle: "left" };
+  const savedShares = hasAutomationAssessments(data)
+    ? computeSavedShares(data)
+    : null;
 
   // 判断边是否应该高亮
   const shouldHighlightEdge = (sourceId: string, targetId: string): boolean => {
@@ -208,21 +550,35 @@ const convertFlowDataToNodesAndEdges = (
   const processNode = (
     nodeData: FlowData,
     parentId: string | null,
-    x: number,
-    y: number
+    siblingIndex = 0,
+    siblingCount = 1,
+    shareOfRoot = 1
   ) => {
     const isHighlighted =
       highlightedNodes === null || highlightedNodes.has(nodeData.id);
     const node: Node = {
       id: nodeData.id,
       type: "custom",
-      position: { x, y },
+      position: layout.get(nodeData.id) ?? { x: 0, y: 0 },
       data: {
         label: nodeData.label,
         ratio: nodeData.ratio,
         depth: nodeData.depth,
         isNew: nodeData.isNew,
         isHighlighted,
+        isActive: nodeData.id === activeNodeId,
+        checks: nodeData.checks,
+        isRoot: nodeData.id === data.id,
+        isViewRoot: parentId === null,
+        hiddenCount: collapsedIds.has(nodeData.id)
+          ? countDescendants(findNode(data, nodeData.id) ?? nodeData)
+          : 0,
+        siblingIndex,
+        siblingCount,
+        shareOfRoot,
+        timeBudget: data.timeBudget,
+        automation: nodeData.automation,
+        savedShare: savedShares?.get(nodeData.id),
       },
       zIndex: isHighlighted ? 1 : 0,
     };
@@ -235,6 +591,8 @@ const convertFlowDataToNodesAndEdges = (
         id: `edge-${parentId}-${node.id}`,
         source: parentId,
         target: node.id,
+        ...childHandles,
+        type: orientation === "radial" ? "straight" : undefined,
         style: {
           stroke: "hsl(var(--primary))",
           strokeWidth: 2,
@@ -246,26 +604,24 @@ const convertFlowDataToNodesAndEdges = (
 
     // 处理子节点
     if (nodeData.children.length > 0) {
-      const totalWidth =
-        nodeData.children.length * NODE_WIDTH +
-        (nodeData.children.length - 1) * NODE_SPACING;
-      const startX = x - totalWidth / 2;
-
       nodeData.children.forEach((child, index) => {
-        const childX = startX + index * (NODE_WIDTH + NODE_SPACING);
-        const childY = y + VERTICAL_SPACING;
-        processNode(child, node.id, childX, childY);
+        processNode(
+          child,
+          node.id,
+          index,
+          nodeData.children.length,
+          shareOfRoot * child.ratio
+        );
 
-        // 修改兄弟节点之间的连接
-        if (index > 0) {
+        // 兄弟节点之间按顺序连接，放射状布局中省略
+        if (index > 0 && orientation !== "radial") {
           const prevChildId = nodeData.children[index - 1].id;
           const isEdgeHighlighted = shouldHighlightEdge(prevChildId, child.id);
           edges.push({
             id: `sibling-edge-${prevChildId}-${child.id}`,
             source: prevChildId,
             target: child.id,
-            sourceHandle: "right",
-            targetHandle: "left",
+            ...siblingHandles,
             type: "smoothstep",
             style: {
               stroke: "hsl(var(--primary))",
@@ -279,11 +635,32 @@ const convertFlowDataToNodesAndEdges = (
     }
   };
 
-  processNode(data, parentId, x, y);
+  // 聚焦时视图根节点的同级位置和占比仍按完整的树计算
+  let viewShare = 1;
+  walkTree(data, ({ node, shareOfRoot }) => {
+    if (node.id === view.id) viewShare = shareOfRoot;
+  });
+  const viewParent = findParent(data, view.id);
+  processNode(
+    view,
+    null,
+    viewParent?.children.findIndex((child) => child.id === view.id) ?? 0,
+    viewParent?.children.length ?? 1,
+    viewShare
+  );
   return { nodes, edges };
 };
 
 export function FlowChart() {
+  // 导出图片等功能需要通过 useReactFlow 访问画布
+  return (
+    <ReactFlowProvider>
+      <FlowChartCanvas />
+    </ReactFlowProvider>
+  );
+}
+
+function FlowChartCanvas() {
   const {
     nodes,
     edges,
@@ -293,15 +670,86 @@ export function FlowChart() {
     setFlowData,
     onNodesChange,
     onEdgesChange,
-    onConnect,
     resetFlow,
+    patchFlowDataNode,
+    modelConfig,
+    beginHistoryGroup,
+    endHistoryGroup,
+    layoutOrientation,
+    collapsedNodeIds,
+    focusNodeId,
+    setFocusNodeId,
+    viewMode,
+    selectedNodeId,
+    selectNode,
+    setRequestError,
+    bypassCache,
+    isReadOnly,
   } = useFlowStore();
+  const { fitView } = useReactFlow();
+  const { locale, t } = useTranslation();
 
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const generateAbortRef = useRef<AbortController | null>(null);
+  const keepPartialRef = useRef(true);
   const [highlightedNodes, setHighlightedNodes] = useState<Set<string>>(
     new Set()
   );
+  const [searchMatches, setSearchMatches] = useState<Set<string> | null>(null);
+  const [activeSearchId, setActiveSearchId] = useState<string | null>(null);
+
+  const handleSearchResults = useCallback(
+    (matchIds: Set<string> | null, activeId: string | null) => {
+      setSearchMatches(matchIds);
+      setActiveSearchId(activeId);
+    },
+    []
+  );
+  const { initialize, createProject, openSharedFlow } = useProjectStore();
+  const [shareError, setShareError] = useState<ShareErrorCode | null>(null);
+
+  // 加载已保存的项目，并在每次修改后自动保存；地址中带有分享数据时以只读方式打开
+  useEffect(() => {
+    const stopAutosave = startAutosave();
+    const readSharedFlow = async () => {
+      const data = readShareHash(window.location.hash);
+      if (data === null) return null;
+      try {
+        return await decodeSharedFlowData(data);
+      } catch (error) {
+        console.error("Error opening share link:", error);
+        setShareError(error instanceof ShareLinkError ? error.code : "corrupt");
+        clearShareHash();
+        return null;
+      }
+    };
+
+    readSharedFlow()
+      .then((sharedFlowData) => initialize(sharedFlowData))
+      .catch((error) => console.error("Error loading projects:", error));
+
+    // 在已打开的页面中粘贴另一个分享链接时只有 hash 变化，页面不会重新加载
+    const handleHashChange = async () => {
+      const sharedFlowData = await readSharedFlow();
+      if (sharedFlowData) {
+        setShareError(null);
+        await openSharedFlow(sharedFlowData);
+      }
+    };
+    window.addEventListener("hashchange", handleHashChange);
+    return () => {
+      stopAutosave();
+      window.removeEventListener("hashchange", handleHashChange);
+    };
+  }, [initialize, openSharedFlow]);
+
+  // 复制到自己的项目或打开其他项目后，去掉地址中的分享数据
+  const wasReadOnlyRef = useRef(isReadOnly);
+  useEffect(() => {
+    if (wasReadOnlyRef.current && !isReadOnly) clearShareHash();
+    wasReadOnlyRef.current = isReadOnly;
+  }, [isReadOnly]);
 
   // 获取节点的所有祖先节点ID
   const getAncestorIds = useCallback(
@@ -449,109 +897,291 @@ export function FlowChart() {
     [flowData, getAncestorIds, getDescendantIds]
   );
 
+  // 上一次的布局，用来让正在变化的子树保持在原位
+  const layoutRef = useRef<{
+    orientation: LayoutOrientation;
+    positions: Map<string, Point>;
+    anchorId: string | null;
+  } | null>(null);
+
+  const collapsedIds = useMemo(
+    () => new Set(collapsedNodeIds),
+    [collapsedNodeIds]
+  );
+
+  // 实际显示的树：聚焦的子树，并去掉折叠节点下的分支
+  const view = useMemo(() => {
+    if (!flowData) return null;
+    const focused = focusNodeId ? findNode(flowData, focusNodeId) : null;
+    return pruneCollapsed(focused ?? flowData, collapsedIds);
+  }, [flowData, focusNodeId, collapsedIds]);
+
+  // 聚焦的节点被删除或撤销掉时退出聚焦
+  useEffect(() => {
+    if (focusNodeId && (!flowData || !findNode(flowData, focusNodeId))) {
+      setFocusNodeId(null);
+    }
+  }, [flowData, focusNodeId, setFocusNodeId]);
+
+  const layout = useMemo(() => {
+    if (!view) {
+      layoutRef.current = null;
+      return null;
+    }
+    const positions = computeTreeLayout(view, layoutOrientation);
+    const previous = layoutRef.current;
+    if (!previous || previous.orientation !== layoutOrientation) {
+      layoutRef.current = {
+        orientation: layoutOrientation,
+        positions,
+        anchorId: null,
+      };
+      return positions;
+    }
+
+    // 有新节点时以其父节点为锚点，否则沿用上一次的锚点
+    let anchorId = previous.anchorId;
+    const added = Array.from(positions.keys()).find(
+      (id) => !previous.positions.has(id)
+    );
+    if (added) anchorId = findParent(view, added)?.id ?? null;
+    const anchored = anchorLayout(positions, previous.positions, anchorId);
+    layoutRef.current = {
+      orientation: layoutOrientation,
+      positions: anchored,
+      anchorId,
+    };
+    return anchored;
+  }, [view, layoutOrientation]);
+
   // 修改 useEffect，在转换节点时包含高亮信息
   useEffect(() => {
-    if (flowData) {
+    if (flowData && view && layout) {
       const { nodes: newNodes, edges: newEdges } =
         convertFlowDataToNodesAndEdges(
           flowData,
-          null,
-          0,
-          0,
-          highlightedNodes.size > 0 ? highlightedNodes : null
+          view,
+          layout,
+          layoutOrientation,
+          collapsedIds,
+          // 悬停高亮优先，其次是搜索结果
+          highlightedNodes.size > 0
+            ? highlightedNodes
+            : searchMatches && searchMatches.size > 0
+              ? searchMatches
+              : null,
+          activeSearchId ?? selectedNodeId
         );
       setNodes(newNodes);
       setEdges(newEdges);
+    } else {
+      // 撤销到空白状态时清空画布
+      setNodes([]);
+      setEdges([]);
     }
-  }, [flowData, highlightedNodes]);
+  }, [
+    flowData,
+    view,
+    layout,
+    layoutOrientation,
+    collapsedIds,
+    highlightedNodes,
+    searchMatches,
+    activeSearchId,
+    selectedNodeId,
+  ]);
+
+  // 在图表中点选节点后回到流程图，等画布更新后缩放到该节点
+  useEffect(() => {
+    if (viewMode !== "graph" || !selectedNodeId) return;
+    const timer = setTimeout(
+      () =>
+        fitView({
+          nodes: [{ id: selectedNodeId }],
+          duration: 400,
+          padding: 0.5,
+          maxZoom: 1.2,
+        }),
+      50
+    );
+    return () => clearTimeout(timer);
+  }, [viewMode, selectedNodeId, fitView]);
 
   const handleGenerate = useCallback(async () => {
     if (!input.trim()) return;
 
     setIsLoading(true);
-    resetFlow();
+    const abortController = new AbortController();
+    generateAbortRef.current = abortController;
+    const children: FlowData[] = [];
+    setRequestError(null);
 
     try {
-      const children: FlowData[] = [];
-
-      await decomposeWorkflow(input, null, null, (part) => {
-        const newChild: FlowData = {
-          id: `node-${Math.random()}`,
-          label: part.text,
-          depth: 1,
-          ratio: part.ratio,
-          children: [],
-          isNew: true,
-        };
-        children.push(newChild);
-
-        // 更新整个流程图
-        const currentData: FlowData = {
-          id: `node-${Math.random()}`,
-          label: input,
-          depth: 0,
-          ratio: 1,
-          children: [...children],
-          isNew: true,
-        };
-        setFlowData(currentData);
-      });
+      // 当前项目已有内容时新建项目，避免覆盖已有的拆解结果
+      if (flowData) {
+        await createProject(input);
+      } else {
+        resetFlow();
+      }
+      // 整次生成只占一步撤销记录
+      beginHistoryGroup();
+
+      const rootId = `node-${Math.random()}`;
+
+      await decomposeWorkflow(
+        input,
+        null,
+        null,
+        (part) => {
+          const newChild: FlowData = {
+            id: `node-${Math.random()}`,
+            label: part.text,
+            depth: 1,
+            ratio: part.ratio,
+            children: [],
+            isNew: true,
+          };
+          children.push(newChild);
+
+          // 更新整个流程图
+          const currentData: FlowData = {
+            id: rootId,
+            label: input,
+            depth: 0,
+            ratio: 1,
+            children: [...children],
+            isNew: true,
+            // 新的树使用当前的界面语言，之后继续拆解时沿用
+            language: locale,
+          };
+          setFlowData(currentData);
+        },
+        {
+          model: modelConfig,
+          template: getActivePromptTemplate(),
+          language: locale,
+          bypassCache,
+          signal: abortController.signal,
+          onRetry: () => {
+            children.length = 0;
+            resetFlow();
+          },
+          onValidation: (checks) => patchFlowDataNode(rootId, { checks }),
+        }
+      );
     } catch (error) {
-      console.error("Error generating flow:", error);
+      if (isAbortError(error)) {
+        if (!keepPartialRef.current && children.length > 0) resetFlow();
+      } else {
+        if (!(error instanceof RejectedRequestError)) {
+          console.error("Error generating flow:", error);
+        }
+        setRequestError(toRequestError(error));
+        // 与拆分节点一致，出错时撤回已经显示的部分结果
+        if (children.length > 0) resetFlow();
+      }
     } finally {
+      generateAbortRef.current = null;
+      endHistoryGroup();
       setIsLoading(false);
     }
-  }, [input, resetFlow, setFlowData]);
+  }, [
+    input,
+    flowData,
+    createProject,
+    resetFlow,
+    setFlowData,
+    patchFlowDataNode,
+    setRequestError,
+    modelConfig,
+    bypassCache,
+    locale,
+    beginHistoryGroup,
+    endHistoryGroup,
+  ]);
+
+  const stopGenerate = (keepPartial: boolean) => {
+    keepPartialRef.current = keepPartial;
+    generateAbortRef.current?.abort();
+  };
 
   return (
-    <div className="w-full h-screen bg-background text-foreground">
-      <div className="p-4 flex gap-4">
-        <Input
-          type="text"
-          value={input}
-          onChange={(e) => setInput(e.target.value)}
-          onKeyDown={(e) => {
-            if (e.key === "Enter" && !isLoading) {
-              handleGenerate();
-            }
-          }}
-          placeholder="输入工作内容"
-          className="flex-grow"
-          disabled={isLoading}
-        />
-        <Button onClick={handleGenerate} disabled={isLoading}>
-          {isLoading ? (
-            <>
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              拆解中...
-            </>
-          ) : (
-            "拆解工作流程"
-          )}
-        </Button>
+    <div className="w-full h-screen flex bg-background text-foreground">
+      <ProjectSidebar disabled={isLoading} />
+      <div className="flex-1 min-w-0 flex flex-col">
+        <div className="p-4 flex flex-wrap gap-4">
+          <Input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !isLoading) {
+                handleGenerate();
+              }
+            }}
+            placeholder={t("flow.inputPlaceholder")}
+            className="flex-grow"
+            disabled={isLoading}
+          />
+          <ModelPicker disabled={isLoading} />
+          <LocaleSwitcher />
+          <PromptTemplatePicker disabled={isLoading} />
+          <CacheToggle disabled={isLoading} />
+          <Button onClick={handleGenerate} disabled={isLoading}>
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {t("flow.generating")}
+              </>
+            ) : (
+              t("flow.generate")
+            )}
+          </Button>
+          {isLoading && <StopControls onStop={stopGenerate} />}
+          <SearchBox onResultsChange={handleSearchResults} />
+          <ViewSwitcher />
+          {viewMode === "graph" && <LayoutSwitcher />}
+          <HistoryControls disabled={isLoading} />
+          <AssessAutomationButton disabled={isLoading || isReadOnly} />
+          <ImportButton disabled={isLoading} />
+          <ExportMenu />
+          <ShareButton disabled={isLoading} />
+        </div>
+        <div className="relative flex-1 min-h-0">
+          <ReactFlow
+            nodes={nodes}
+            edges={edges}
+            onNodesChange={onNodesChange}
+            onEdgesChange={onEdgesChange}
+            nodesConnectable={false}
+            nodeTypes={nodeTypes}
+            defaultViewport={{ x: 500, y: 0, zoom: 0.8 }}
+            onNodeMouseEnter={(_, node) => handleNodeMouseEnter(node.id)}
+            onNodeMouseLeave={handleNodeMouseLeave}
+            onEdgeMouseEnter={handleEdgeMouseEnter}
+            onEdgeMouseLeave={handleNodeMouseLeave}
+            onPaneClick={() => selectNode(null)}
+          >
+            <Background />
+            <Controls />
+            <MiniMap
+              nodeStrokeColor="hsl(var(--primary))"
+              nodeColor="hsl(var(--card))"
+              nodeBorderRadius={12}
+              className="!bottom-4 !right-4"
+            />
+          </ReactFlow>
+          <AutoExpandPanel />
+          <FocusBreadcrumb />
+          <RequestErrorBanner />
+          <SharedViewBanner
+            error={shareError}
+            onDismissError={() => setShareError(null)}
+          />
+          {viewMode !== "graph" && <TimeChartView kind={viewMode} />}
+        </div>
+        <RegeneratePanel />
       </div>
-      <ReactFlow
-        nodes={nodes}
-        edges={edges}
-        onNodesChange={onNodesChange}
-        onEdgesChange={onEdgesChange}
-        onConnect={onConnect}
-        nodeTypes={nodeTypes}
-        defaultViewport={{ x: 500, y: 0, zoom: 0.8 }}
-        onNodeMouseEnter={(_, node) => handleNodeMouseEnter(node.id)}
-        onNodeMouseLeave={handleNodeMouseLeave}
-        onEdgeMouseEnter={handleEdgeMouseEnter}
-        onEdgeMouseLeave={handleNodeMouseLeave}
-      >
-        <Background />
-        <Controls />
-        <MiniMap
-          nodeStrokeColor="hsl(var(--primary))"
-          nodeColor="hsl(var(--card))"
-          nodeBorderRadius={12}
-          className="!bottom-4 !right-4"
-        />
-      </ReactFlow>
     </div>
   );
 }
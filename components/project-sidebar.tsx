@@ -0,0 +1,129 @@
+"use client";
+
+import React, { useState } from "react";
+import { Copy, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useProjectStore } from "@/lib/stores/project-store";
+import { useTranslation } from "@/lib/stores/locale-store";
+
+// 项目列表侧边栏：新建、重命名、复制、打开和删除
+export function ProjectSidebar({ disabled }: { disabled?: boolean }) {
+  const {
+    projects,
+    currentProjectId,
+    createProject,
+    openProject,
+    renameProject,
+    duplicateProject,
+    deleteProject,
+  } = useProjectStore();
+  const { t } = useTranslation();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  const startRename = (id: string, name: string) => {
+    setEditingId(id);
+    setEditingName(name);
+  };
+
+  const commitRename = async () => {
+    if (editingId) await renameProject(editingId, editingName);
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="w-60 shrink-0 border-r flex flex-col">
+      <div className="p-4 flex items-center justify-between">
+        <div className="text-sm font-medium">{t("project.title")}</div>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          onClick={() => createProject()}
+          disabled={disabled}
+          title={t("project.create")}
+        >
+          <Plus />
+        </Button>
+      </div>
+      <div className="flex-1 overflow-y-auto px-2 pb-4 flex flex-col gap-1">
+        {projects.map((project) => (
+          <div
+            key={project.id}
+            className={`group flex items-center gap-1 rounded-md px-2 py-1.5 text-sm ${
+              project.id === currentProjectId
+                ? "bg-accent text-accent-foreground"
+                : "hover:bg-accent/50"
+            }`}
+          >
+            {editingId === project.id ? (
+              <Input
+                autoFocus
+                value={editingName}
+                className="h-7"
+                onChange={(e) => setEditingName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") commitRename();
+                  if (e.key === "Escape") setEditingId(null);
+                }}
+              />
+            ) : (
+              <>
+                <button
+                  className="flex-1 truncate text-left disabled:opacity-50"
+                  onClick={() => openProject(project.id)}
+                  onDoubleClick={() => startRename(project.id, project.name)}
+                  disabled={disabled}
+                  title={project.name}
+                >
+                  {project.name}
+                </button>
+                <div className="hidden group-hover:flex items-center">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6 [&_svg]:size-3"
+                    onClick={() => startRename(project.id, project.name)}
+                    title={t("project.rename")}
+                  >
+                    <Pencil />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6 [&_svg]:size-3"
+                    onClick={() => duplicateProject(project.id)}
+                    disabled={disabled}
+                    title={t("project.duplicate")}
+                  >
+                    <Copy />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6 [&_svg]:size-3"
+                    onClick={() => {
+                      if (
+                        window.confirm(
+                          t("project.confirmDelete", { name: project.name })
+                        )
+                      ) {
+                        deleteProject(project.id);
+                      }
+                    }}
+                    disabled={disabled}
+                    title={t("project.delete")}
+                  >
+                    <Trash2 />
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+}
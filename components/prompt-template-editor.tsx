@@ -0,0 +1,410 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Copy, Plus, Save, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  BUILT_IN_PROMPT_TEMPLATES,
+  describeTemplateIssue,
+  getTemplateDescription,
+  getTemplateName,
+  PromptExample,
+  PromptTemplateData,
+  renderPromptTemplate,
+  validatePromptTemplate,
+} from "@/lib/prompt-templates";
+import { useProjectStore } from "@/lib/stores/project-store";
+import { useTranslation } from "@/lib/stores/locale-store";
+import {
+  createTemplateId,
+  getPromptTemplate,
+  useTemplateStore,
+} from "@/lib/stores/template-store";
+
+const textareaClassName =
+  "w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-70";
+
+// 示例的拆解结果用顿号或逗号分隔
+const STEP_SEPARATOR = /[、,，]/;
+
+// 去掉空规则与空环节，保存和校验前调用
+function normalizeTemplate(template: PromptTemplateData): PromptTemplateData {
+  return {
+    ...template,
+    name: template.name.trim(),
+    rules: template.rules.map((rule) => rule.trim()).filter(Boolean),
+    examples: template.examples.map((example) => ({
+      ...example,
+      steps: example.steps.map((step) => step.trim()).filter(Boolean),
+    })),
+  };
+}
+
+function Field({
+  label,
+  hint,
+  children,
+}: {
+  label: string;
+  hint?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <label className="flex flex-col gap-1 text-sm">
+      <span className="font-medium">
+        {label}
+        {hint && (
+          <span className="ml-2 font-normal text-muted-foreground">{hint}</span>
+        )}
+      </span>
+      {children}
+    </label>
+  );
+}
+
+function ExampleEditor({
+  example,
+  disabled,
+  onChange,
+  onRemove,
+}: {
+  example: PromptExample;
+  disabled: boolean;
+  onChange: (example: PromptExample) => void;
+  onRemove: () => void;
+}) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex flex-col gap-2 rounded-md border p-2">
+      <div className="flex items-center gap-2">
+        <select
+          className="h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+          value={example.correct ? "correct" : "wrong"}
+          disabled={disabled}
+          onChange={(e) =>
+            onChange({ ...example, correct: e.target.value === "correct" })
+          }
+          aria-label={t("template.exampleKind")}
+        >
+          <option value="correct">{t("template.exampleCorrect")}</option>
+          <option value="wrong">{t("template.exampleWrong")}</option>
+        </select>
+        <Input
+          value={example.input}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...example, input: e.target.value })}
+          placeholder={t("template.exampleInput")}
+          className="w-40"
+        />
+        <Input
+          value={example.steps.join("、")}
+          disabled={disabled}
+          onChange={(e) =>
+            onChange({
+              ...example,
+              steps: e.target.value.split(STEP_SEPARATOR),
+            })
+          }
+          placeholder={t("template.exampleSteps")}
+          className="flex-1"
+        />
+        {!disabled && (
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={onRemove}
+            title={t("template.removeExample")}
+          >
+            <X />
+          </Button>
+        )}
+      </div>
+      <Input
+        value={example.reason}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...example, reason: e.target.value })}
+        placeholder={t("template.exampleReason")}
+      />
+    </div>
+  );
+}
+
+// 提示词模板管理：查看内置模板，复制后编辑、保存自定义模板
+export function PromptTemplateEditor({
+  initialTemplateId,
+  onClose,
+}: {
+  initialTemplateId: string;
+  onClose: () => void;
+}) {
+  const { customTemplates, saveTemplate, deleteTemplate } = useTemplateStore();
+  const { templateId: projectTemplateId, setProjectTemplate } =
+    useProjectStore();
+  const { locale, t } = useTranslation();
+  const [draft, setDraft] = useState<PromptTemplateData>(() =>
+    getPromptTemplate(initialTemplateId)
+  );
+  const [isDirty, setIsDirty] = useState(false);
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+
+  const normalized = useMemo(() => normalizeTemplate(draft), [draft]);
+  const errors = useMemo(
+    () => validatePromptTemplate(normalized),
+    [normalized]
+  );
+  const isBuiltIn = Boolean(draft.builtIn);
+  const isSaved = customTemplates.some((item) => item.id === draft.id);
+  const activeTemplateId = getPromptTemplate(projectTemplateId).id;
+
+  const update = (patch: Partial<PromptTemplateData>) => {
+    setDraft((current) => ({ ...current, ...patch }));
+    setIsDirty(true);
+  };
+
+  const select = (template: PromptTemplateData) => {
+    if (isDirty && !window.confirm(t("template.confirmDiscard"))) return;
+    setDraft(template);
+    setIsDirty(false);
+  };
+
+  const duplicate = () => {
+    setDraft({
+      ...draft,
+      id: createTemplateId(),
+      name: t("common.copyName", { name: getTemplateName(draft, locale) }),
+      description: getTemplateDescription(draft, locale),
+      builtIn: false,
+      nameKey: undefined,
+      descriptionKey: undefined,
+    });
+    setIsDirty(true);
+  };
+
+  const save = async () => {
+    if (errors.length > 0) return;
+    await saveTemplate(normalized);
+    setDraft(normalized);
+    setIsDirty(false);
+  };
+
+  const remove = async () => {
+    if (!window.confirm(t("template.confirmDelete", { name: draft.name }))) {
+      return;
+    }
+    await deleteTemplate(draft.id);
+    // 当前项目使用的模板被删除时改回默认模板
+    if (projectTemplateId === draft.id) await setProjectTemplate(null);
+    setDraft(BUILT_IN_PROMPT_TEMPLATES[0]);
+    setIsDirty(false);
+  };
+
+  const updateExample = (index: number, example: PromptExample) =>
+    update({
+      examples: draft.examples.map((item, i) => (i === index ? example : item)),
+    });
+
+  const templates = [...BUILT_IN_PROMPT_TEMPLATES, ...customTemplates];
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-8"
+      onClick={onClose}
+    >
+      <Card
+        className="flex h-full max-h-[48rem] w-full max-w-5xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex w-48 shrink-0 flex-col gap-1 overflow-y-auto border-r p-2">
+          {templates.map((template) => (
+            <button
+              key={template.id}
+              className={`rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted ${
+                template.id === draft.id ? "bg-muted font-medium" : ""
+              }`}
+              onClick={() => select(template)}
+              title={getTemplateDescription(template, locale)}
+            >
+              <div className="truncate">
+                {getTemplateName(template, locale)}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {template.builtIn
+                  ? t("template.builtIn")
+                  : t("template.custom")}
+                {template.id === activeTemplateId &&
+                  t("template.currentProject")}
+              </div>
+            </button>
+          ))}
+        </div>
+        <div className="flex min-w-0 flex-1 flex-col">
+          <div className="flex items-center gap-2 border-b p-4">
+            <div className="min-w-0 flex-1 truncate font-medium">
+              {getTemplateName(draft, locale) || t("template.untitled")}
+              {isBuiltIn && (
+                <span className="ml-2 text-sm font-normal text-muted-foreground">
+                  {t("template.readOnly")}
+                </span>
+              )}
+            </div>
+            <Button variant="outline" onClick={duplicate}>
+              <Copy />
+              {t("template.duplicate")}
+            </Button>
+            {!isBuiltIn && (
+              <>
+                {isSaved && (
+                  <Button variant="outline" onClick={remove}>
+                    <Trash2 />
+                    {t("template.delete")}
+                  </Button>
+                )}
+                <Button onClick={save} disabled={!isDirty || errors.length > 0}>
+                  <Save />
+                  {t("template.save")}
+                </Button>
+              </>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => setProjectTemplate(draft.id)}
+              disabled={
+                isDirty ||
+                (!isBuiltIn && !isSaved) ||
+                draft.id === activeTemplateId
+              }
+            >
+              {t("template.useForProject")}
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={onClose}
+              title={t("common.close")}
+            >
+              <X />
+            </Button>
+          </div>
+          <div className="flex min-h-0 flex-1 flex-col gap-4 overflow-y-auto p-4">
+            <div className="grid grid-cols-2 gap-4">
+              <Field label={t("template.name")}>
+                <Input
+                  value={getTemplateName(draft, locale)}
+                  disabled={isBuiltIn}
+                  onChange={(e) => update({ name: e.target.value })}
+                />
+              </Field>
+              <Field label={t("template.description")}>
+                <Input
+                  value={getTemplateDescription(draft, locale) ?? ""}
+                  disabled={isBuiltIn}
+                  onChange={(e) => update({ description: e.target.value })}
+                />
+              </Field>
+            </div>
+            <Field label={t("template.role")}>
+              <textarea
+                className={textareaClassName}
+                rows={2}
+                value={draft.role}
+                disabled={isBuiltIn}
+                onChange={(e) => update({ role: e.target.value })}
+              />
+            </Field>
+            <Field label={t("template.task")} hint={t("template.taskHint")}>
+              <textarea
+                className={textareaClassName}
+                rows={4}
+                value={draft.task}
+                disabled={isBuiltIn}
+                onChange={(e) => update({ task: e.target.value })}
+              />
+            </Field>
+            <Field label={t("template.rules")} hint={t("template.rulesHint")}>
+              <textarea
+                className={textareaClassName}
+                rows={6}
+                value={draft.rules.join("\n")}
+                disabled={isBuiltIn}
+                onChange={(e) => update({ rules: e.target.value.split("\n") })}
+              />
+            </Field>
+            <div className="flex flex-col gap-2 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{t("template.examples")}</span>
+                {!isBuiltIn && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() =>
+                      update({
+                        examples: [
+                          ...draft.examples,
+                          { input: "", steps: [], correct: true, reason: "" },
+                        ],
+                      })
+                    }
+                  >
+                    <Plus />
+                    {t("template.addExample")}
+                  </Button>
+                )}
+              </div>
+              {draft.examples.map((example, index) => (
+                <ExampleEditor
+                  key={index}
+                  example={example}
+                  disabled={isBuiltIn}
+                  onChange={(value) => updateExample(index, value)}
+                  onRemove={() =>
+                    update({
+                      examples: draft.examples.filter((_, i) => i !== index),
+                    })
+                  }
+                />
+              ))}
+            </div>
+            <Field
+              label={t("template.outputFormat")}
+              hint={t("template.outputFormatHint")}
+            >
+              <textarea
+                className={textareaClassName}
+                rows={2}
+                value={draft.outputFormat}
+                disabled={isBuiltIn}
+                onChange={(e) => update({ outputFormat: e.target.value })}
+              />
+            </Field>
+            {errors.length > 0 && (
+              <ul className="list-inside list-disc rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+                {errors.map((error) => {
+                  const message = describeTemplateIssue(error, locale);
+                  return <li key={message}>{message}</li>;
+                })}
+              </ul>
+            )}
+            <div className="text-sm">
+              <button
+                className="text-muted-foreground hover:text-foreground hover:underline"
+                onClick={() => setIsPreviewOpen(!isPreviewOpen)}
+              >
+                {isPreviewOpen
+                  ? t("template.hidePreview")
+                  : t("template.showPreview")}
+              </button>
+              {isPreviewOpen && (
+                <pre className="mt-2 whitespace-pre-wrap rounded-md bg-muted p-3 text-xs">
+                  {renderPromptTemplate(normalized)}
+                </pre>
+              )}
+            </div>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+}
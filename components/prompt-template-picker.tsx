@@ -0,0 +1,104 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { PromptTemplateEditor } from "@/components/prompt-template-editor";
+import {
+  BUILT_IN_PROMPT_TEMPLATES,
+  getTemplateName,
+} from "@/lib/prompt-templates";
+import { useProjectStore } from "@/lib/stores/project-store";
+import { useTranslation } from "@/lib/stores/locale-store";
+import {
+  getPromptTemplate,
+  useTemplateStore,
+} from "@/lib/stores/template-store";
+
+const selectClassName =
+  "h-9 max-w-40 rounded-md border border-input bg-transparent px-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50";
+
+// 提示词模板下拉框，内置模板与自定义模板分组显示
+export function TemplateSelect({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: string | null;
+  onChange: (templateId: string) => void;
+  disabled?: boolean;
+}) {
+  const { customTemplates } = useTemplateStore();
+  const { locale, t } = useTranslation();
+
+  return (
+    <select
+      className={selectClassName}
+      // 已删除的模板回退到默认模板
+      value={getPromptTemplate(value).id}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value)}
+      aria-label={t("template.select")}
+      title={t("template.select")}
+    >
+      <optgroup label={t("template.builtInGroup")}>
+        {BUILT_IN_PROMPT_TEMPLATES.map((template) => (
+          <option key={template.id} value={template.id}>
+            {getTemplateName(template, locale)}
+          </option>
+        ))}
+      </optgroup>
+      {customTemplates.length > 0 && (
+        <optgroup label={t("template.customGroup")}>
+          {customTemplates.map((template) => (
+            <option key={template.id} value={template.id}>
+              {getTemplateName(template, locale)}
+            </option>
+          ))}
+        </optgroup>
+      )}
+    </select>
+  );
+}
+
+// 工具栏中的模板选择：为当前项目选择模板，或打开模板管理
+export function PromptTemplatePicker({ disabled }: { disabled?: boolean }) {
+  const { templateId, setProjectTemplate } = useProjectStore();
+  const { loadTemplates } = useTemplateStore();
+  const { t } = useTranslation();
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+
+  useEffect(() => {
+    loadTemplates().catch((error) =>
+      console.error("Error loading templates:", error)
+    );
+  }, [loadTemplates]);
+
+  return (
+    <div className="flex items-center gap-1">
+      <TemplateSelect
+        value={templateId}
+        onChange={(id) =>
+          setProjectTemplate(id).catch((error) =>
+            console.error("Error saving project template:", error)
+          )
+        }
+        disabled={disabled}
+      />
+      <Button
+        size="icon"
+        variant="outline"
+        onClick={() => setIsEditorOpen(true)}
+        title={t("template.manage")}
+      >
+        <FileText />
+      </Button>
+      {isEditorOpen && (
+        <PromptTemplateEditor
+          initialTemplateId={getPromptTemplate(templateId).id}
+          onClose={() => setIsEditorOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,352 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Loader2, RefreshCw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { DecompositionChecks } from "@/components/decomposition-checks";
+import { TemplateSelect } from "@/components/prompt-template-picker";
+import {
+  decomposeWorkflow,
+  isAbortError,
+  RejectedRequestError,
+  toRequestError,
+} from "@/lib/llm";
+import { useFlowStore, FlowData } from "@/lib/stores/flow-store";
+import { useProjectStore } from "@/lib/stores/project-store";
+import { useTranslation } from "@/lib/stores/locale-store";
+import { getPromptTemplate } from "@/lib/stores/template-store";
+import { findNode, normalizeRatios, updateNode } from "@/lib/tree";
+import { getTreeLanguage } from "@/lib/i18n";
+import {
+  DecompositionCheck,
+  WorkflowErrorBody,
+  WorkflowStep,
+} from "@/lib/workflow-stream";
+
+const CANDIDATE_COUNTS = [2, 3, 4];
+const DEFAULT_CANDIDATE_COUNT = 3;
+
+interface Candidate {
+  steps: WorkflowStep[];
+  checks?: DecompositionCheck[];
+  status: "loading" | "done" | "error";
+  error?: WorkflowErrorBody;
+}
+
+// 选中的环节，记为 "候选序号:环节序号"
+const stepKey = (candidateIndex: number, stepIndex: number) =>
+  `${candidateIndex}:${stepIndex}`;
+
+// 对已拆分的节点重新请求多个候选方案并排对比，选用其中一个或合并所选环节
+export function RegeneratePanel() {
+  const {
+    flowData,
+    regeneratingNodeId,
+    setRegeneratingNodeId,
+    updateFlowDataNode,
+    patchFlowDataNode,
+    beginHistoryGroup,
+    endHistoryGroup,
+  } = useFlowStore();
+  const { t } = useTranslation();
+  const [count, setCount] = useState(DEFAULT_CANDIDATE_COUNT);
+  // 本次重新拆分使用的模板，默认与项目一致
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // 每次生成递增，忽略已过期的请求返回的结果
+  const runIdRef = useRef(0);
+  // 重新生成、关闭面板或节点消失时中止上一轮尚未完成的请求
+  const abortRef = useRef<AbortController | null>(null);
+
+  const node =
+    flowData && regeneratingNodeId
+      ? findNode(flowData, regeneratingNodeId)
+      : null;
+
+  const generate = useCallback(
+    (candidateCount: number, candidateTemplateId: string | null) => {
+      const { flowData, regeneratingNodeId, modelConfig } =
+        useFlowStore.getState();
+      const target =
+        flowData && regeneratingNodeId
+          ? findNode(flowData, regeneratingNodeId)
+          : null;
+      if (!flowData || !target) return;
+
+      const runId = ++runIdRef.current;
+      abortRef.current?.abort();
+      const abortController = new AbortController();
+      abortRef.current = abortController;
+      // 上下文中去掉现有的子环节，避免模型因查重而回避原有方案
+      const context = updateNode(flowData, target.id, (item) => ({
+        ...item,
+        children: [],
+      }));
+      const update = (index: number, patch: Partial<Candidate>) => {
+        if (runIdRef.current !== runId) return;
+        setCandidates((items) =>
+          items.map((item, i) => (i === index ? { ...item, ...patch } : item))
+        );
+      };
+
+      setSelected(new Set());
+      setCandidates(
+        Array.from({ length: candidateCount }, () => ({
+          steps: [],
+          status: "loading",
+        }))
+      );
+
+      for (let index = 0; index < candidateCount; index++) {
+        const steps: WorkflowStep[] = [];
+        decomposeWorkflow(
+          target.label,
+          context,
+          target.id,
+          (step) => {
+            steps.push(step);
+            update(index, { steps: [...steps] });
+          },
+          {
+            model: modelConfig,
+            template: getPromptTemplate(candidateTemplateId),
+            language: getTreeLanguage(flowData),
+            // 候选方案需要彼此不同，总是重新生成
+            bypassCache: true,
+            signal: abortController.signal,
+            onRetry: () => {
+              steps.length = 0;
+              update(index, { steps: [] });
+            },
+            onValidation: (checks) => update(index, { checks }),
+          }
+        )
+          // 使用比例已经规范化的最终结果
+          .then((result) => update(index, { steps: result, status: "done" }))
+          .catch((error) => {
+            // 已中止的一轮不再更新候选方案
+            if (isAbortError(error)) return;
+            if (error instanceof RejectedRequestError) {
+              useFlowStore.getState().setRequestError(error.toBody());
+            }
+            update(index, { status: "error", error: toRequestError(error) });
+          });
+      }
+    },
+    []
+  );
+
+  useEffect(() => {
+    const projectTemplateId = useProjectStore.getState().templateId;
+    if (regeneratingNodeId) {
+      generate(DEFAULT_CANDIDATE_COUNT, projectTemplateId);
+    }
+    setCount(DEFAULT_CANDIDATE_COUNT);
+    setTemplateId(projectTemplateId);
+    // 关闭面板、节点被删除或撤销、切换项目以及卸载时都会执行，不再消耗模型调用
+    return () => abortRef.current?.abort();
+  }, [regeneratingNodeId, generate]);
+
+  // 节点被删除或撤销掉时关闭面板
+  useEffect(() => {
+    if (regeneratingNodeId && !node) setRegeneratingNodeId(null);
+  }, [regeneratingNodeId, node, setRegeneratingNodeId]);
+
+  if (!node) return null;
+
+  // 未完成的请求由上面 effect 的清理函数中止
+  const close = () => {
+    setCandidates([]);
+    setRegeneratingNodeId(null);
+  };
+
+  const apply = (steps: WorkflowStep[], checks?: DecompositionCheck[]) => {
+    if (steps.length === 0) return;
+    const children: FlowData[] = normalizeRatios(
+      steps.map((step) => ({
+        id: `node-${Math.random()}`,
+        label: step.text,
+        depth: node.depth + 1,
+        ratio: step.ratio,
+        children: [],
+      }))
+    );
+    // 替换子树和更新校验结果合并为一步撤销
+    beginHistoryGroup();
+    updateFlowDataNode(node.id, children);
+    patchFlowDataNode(node.id, { checks });
+    endHistoryGroup();
+    close();
+  };
+
+  // 按方案顺序合并所选环节，同名环节只保留第一个
+  const mergeSelected = () => {
+    const labels = new Set<string>();
+    const steps: WorkflowStep[] = [];
+    candidates.forEach((candidate, candidateIndex) =>
+      candidate.steps.forEach((step, stepIndex) => {
+        if (!selected.has(stepKey(candidateIndex, stepIndex))) return;
+        if (labels.has(step.text)) return;
+        labels.add(step.text);
+        steps.push(step);
+      })
+    );
+    apply(steps);
+  };
+
+  const toggle = (key: string) => {
+    setSelected((items) => {
+      const next = new Set(items);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const isLoading = candidates.some(
+    (candidate) => candidate.status === "loading"
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-8"
+      onClick={close}
+    >
+      <Card
+        className="flex max-h-full w-full max-w-6xl flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-4 border-b p-4">
+          <div className="min-w-0 flex-1">
+            <div className="text-sm text-muted-foreground">
+              {t("regenerate.title")}
+            </div>
+            <div className="truncate font-medium">{node.label}</div>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            {t("regenerate.count")}
+            <div className="flex">
+              {CANDIDATE_COUNTS.map((value, index) => (
+                <Button
+                  key={value}
+                  size="sm"
+                  variant={value === count ? "default" : "outline"}
+                  className={`${index > 0 ? "rounded-l-none border-l-0" : ""} ${
+                    index < CANDIDATE_COUNTS.length - 1 ? "rounded-r-none" : ""
+                  }`}
+                  onClick={() => setCount(value)}
+                  disabled={isLoading}
+                >
+                  {value}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <TemplateSelect
+            value={templateId}
+            onChange={setTemplateId}
+            disabled={isLoading}
+          />
+          <Button
+            variant="outline"
+            onClick={() => generate(count, templateId)}
+            disabled={isLoading}
+          >
+            <RefreshCw />
+            {t("regenerate.retry")}
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={close}
+            title={t("common.close")}
+          >
+            <X />
+          </Button>
+        </div>
+        <CardContent
+          className="grid min-h-0 flex-1 gap-4 overflow-y-auto p-4"
+          style={{
+            gridTemplateColumns: `repeat(${candidates.length}, minmax(0, 1fr))`,
+          }}
+        >
+          {candidates.map((candidate, candidateIndex) => (
+            <div
+              key={candidateIndex}
+              className="flex flex-col gap-2 rounded-md border p-3"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-sm font-medium">
+                  {t("regenerate.candidate", { index: candidateIndex + 1 })}
+                </div>
+                {candidate.status === "loading" && (
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                )}
+              </div>
+              {candidate.checks && (
+                <DecompositionChecks checks={candidate.checks} />
+              )}
+              <div className="flex flex-1 flex-col gap-1">
+                {candidate.steps.map((step, stepIndex) => {
+                  const key = stepKey(candidateIndex, stepIndex);
+                  return (
+                    <label
+                      key={key}
+                      className="flex cursor-pointer items-center gap-2 rounded-sm px-1 py-0.5 text-sm hover:bg-muted"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selected.has(key)}
+                        onChange={() => toggle(key)}
+                        disabled={candidate.status !== "done"}
+                      />
+                      <span className="flex-1">{step.text}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {Math.round(step.ratio * 100)}%
+                      </span>
+                    </label>
+                  );
+                })}
+                {candidate.status === "error" && candidate.error && (
+                  <div className="text-sm text-destructive">
+                    {t(`requestError.${candidate.error.code}`, {
+                      seconds: candidate.error.retryAfter ?? 1,
+                    })}
+                    {candidate.error.details?.map((detail) => (
+                      <div key={detail} className="text-xs">
+                        {detail}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => apply(candidate.steps, candidate.checks)}
+                disabled={
+                  candidate.status !== "done" || candidate.steps.length === 0
+                }
+              >
+                {t("regenerate.apply")}
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+        <div className="flex items-center justify-between gap-4 border-t p-4">
+          <div className="text-sm text-muted-foreground">
+            {t("regenerate.mergeHint")}
+          </div>
+          <Button onClick={mergeSelected} disabled={selected.size === 0}>
+            {t("regenerate.merge", { count: selected.size })}
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import React from "react";
+import { AlertTriangle, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useFlowStore } from "@/lib/stores/flow-store";
+import { useTranslation } from "@/lib/stores/locale-store";
+
+// 服务端拒绝拆解请求（校验失败、超出上限或被限流）时显示在画布上方
+export function RequestErrorBanner() {
+  const { requestError, setRequestError } = useFlowStore();
+  const { t } = useTranslation();
+  if (!requestError) return null;
+
+  return (
+    <div
+      className="absolute left-1/2 top-4 z-20 flex max-w-[60%] -translate-x-1/2 items-start gap-2 rounded-md border border-destructive/50 bg-background/95 px-3 py-2 text-sm text-destructive shadow-sm"
+      role="alert"
+    >
+      <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+      <div className="min-w-0 flex-1">
+        <div className="font-medium">
+          {t(`requestError.${requestError.code}`, {
+            seconds: requestError.retryAfter ?? 1,
+          })}
+        </div>
+        {requestError.details && requestError.details.length > 0 && (
+          <ul className="mt-1 list-inside list-disc text-xs">
+            {requestError.details.map((detail) => (
+              <li key={detail} className="truncate" title={detail}>
+                {detail}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-6 w-6 shrink-0"
+        onClick={() => setRequestError(null)}
+        title={t("requestError.dismiss")}
+      >
+        <X />
+      </Button>
+    </div>
+  );
+}
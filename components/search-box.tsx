@@ -0,0 +1,270 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useReactFlow } from "reactflow";
+import {
+  ChevronDown,
+  ChevronUp,
+  Search,
+  SlidersHorizontal,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useFlowStore } from "@/lib/stores/flow-store";
+import { useTranslation } from "@/lib/stores/locale-store";
+import {
+  EMPTY_SEARCH_FILTERS,
+  hasActiveFilters,
+  searchTree,
+  SearchFilters,
+} from "@/lib/search";
+
+const filterInputClassName =
+  "h-7 w-16 rounded-md border border-input bg-transparent px-2 text-sm text-right focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+// 空字符串表示不限
+function parseOptionalNumber(value: string): number | undefined {
+  if (!value.trim()) return undefined;
+  const result = Number(value);
+  return Number.isFinite(result) ? result : undefined;
+}
+
+function FilterPanel({
+  filters,
+  onChange,
+}: {
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+}) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="absolute right-0 top-full z-50 mt-1 flex w-64 flex-col gap-2 rounded-md border bg-popover p-3 text-sm text-popover-foreground shadow-md">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-muted-foreground">{t("search.depth")}</span>
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            min={0}
+            placeholder={t("common.unlimited")}
+            className={filterInputClassName}
+            value={filters.minDepth ?? ""}
+            onChange={(e) =>
+              onChange({
+                ...filters,
+                minDepth: parseOptionalNumber(e.target.value),
+              })
+            }
+          />
+          -
+          <input
+            type="number"
+            min={0}
+            placeholder={t("common.unlimited")}
+            className={filterInputClassName}
+            value={filters.maxDepth ?? ""}
+            onChange={(e) =>
+              onChange({
+                ...filters,
+                maxDepth: parseOptionalNumber(e.target.value),
+              })
+            }
+          />
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-muted-foreground">{t("search.minShare")}</span>
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step="any"
+            placeholder={t("common.unlimited")}
+            className={filterInputClassName}
+            value={
+              filters.minShare === undefined
+                ? ""
+                : Math.round(filters.minShare * 1000) / 10
+            }
+            onChange={(e) => {
+              const percent = parseOptionalNumber(e.target.value);
+              onChange({
+                ...filters,
+                minShare: percent === undefined ? undefined : percent / 100,
+              });
+            }}
+          />
+          %
+        </div>
+      </div>
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={filters.leavesOnly}
+          onChange={(e) =>
+            onChange({ ...filters, leavesOnly: e.target.checked })
+          }
+        />
+        {t("search.leavesOnly")}
+      </label>
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={() => onChange(EMPTY_SEARCH_FILTERS)}
+        disabled={!hasActiveFilters(filters)}
+      >
+        {t("search.clearFilters")}
+      </Button>
+    </div>
+  );
+}
+
+// 模糊搜索节点名称并按条件筛选，命中的节点高亮，逐个跳转并缩放到选中的节点
+export function SearchBox({
+  onResultsChange,
+}: {
+  onResultsChange: (
+    matchIds: Set<string> | null,
+    activeId: string | null
+  ) => void;
+}) {
+  const { flowData, revealNode } = useFlowStore();
+  const { fitView } = useReactFlow();
+  const { t } = useTranslation();
+  const [query, setQuery] = useState("");
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_SEARCH_FILTERS);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isFilterOpen, setIsFilterOpen] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const isActive = query.trim() !== "" || hasActiveFilters(filters);
+  const results = useMemo(
+    () => (flowData && isActive ? searchTree(flowData, query, filters) : null),
+    [flowData, query, filters, isActive]
+  );
+  // 删除或重新拆分节点后结果可能变少，选中的序号不能越界
+  const currentIndex = Math.min(
+    activeIndex,
+    Math.max((results?.length ?? 0) - 1, 0)
+  );
+  const activeId = results?.[currentIndex]?.node.id ?? null;
+
+  useEffect(() => setActiveIndex(0), [query, filters]);
+
+  useEffect(() => {
+    onResultsChange(
+      results ? new Set(results.map((result) => result.node.id)) : null,
+      activeId
+    );
+  }, [results, activeId, onResultsChange]);
+
+  // 跳转到选中的结果：先让节点显示出来，等画布更新后再缩放
+  useEffect(() => {
+    if (!activeId) return;
+    revealNode(activeId);
+    const timer = setTimeout(
+      () =>
+        fitView({
+          nodes: [{ id: activeId }],
+          duration: 400,
+          padding: 0.5,
+          maxZoom: 1.2,
+        }),
+      50
+    );
+    return () => clearTimeout(timer);
+  }, [activeId, revealNode, fitView]);
+
+  // Ctrl+F / Cmd+F 聚焦到搜索框
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "f") {
+        event.preventDefault();
+        inputRef.current?.focus();
+        inputRef.current?.select();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const step = (offset: number) => {
+    if (!results || results.length === 0) return;
+    setActiveIndex((currentIndex + offset + results.length) % results.length);
+  };
+
+  const clear = () => {
+    setQuery("");
+    setFilters(EMPTY_SEARCH_FILTERS);
+  };
+
+  return (
+    <div className="relative flex items-center">
+      <Search className="pointer-events-none absolute left-2.5 h-4 w-4 text-muted-foreground" />
+      <Input
+        ref={inputRef}
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") step(e.shiftKey ? -1 : 1);
+          if (e.key === "Escape") clear();
+        }}
+        placeholder={t("search.placeholder")}
+        className="w-72 pl-8 pr-36"
+      />
+      <div className="absolute right-1 flex items-center gap-0.5">
+        {results && (
+          <span className="px-1 text-xs text-muted-foreground">
+            {results.length > 0
+              ? `${currentIndex + 1}/${results.length}`
+              : t("search.noResults")}
+          </span>
+        )}
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          onClick={() => step(-1)}
+          disabled={!results || results.length === 0}
+          title={t("search.previous")}
+        >
+          <ChevronUp />
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          onClick={() => step(1)}
+          disabled={!results || results.length === 0}
+          title={t("search.next")}
+        >
+          <ChevronDown />
+        </Button>
+        <Button
+          size="icon"
+          variant={hasActiveFilters(filters) ? "secondary" : "ghost"}
+          className="h-7 w-7"
+          onClick={() => setIsFilterOpen(!isFilterOpen)}
+          title={t("search.filters")}
+        >
+          <SlidersHorizontal />
+        </Button>
+        {isActive && (
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7"
+            onClick={clear}
+            title={t("search.clear")}
+          >
+            <X />
+          </Button>
+        )}
+      </div>
+      {isFilterOpen && <FilterPanel filters={filters} onChange={setFilters} />}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Check, Share2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useFlowStore } from "@/lib/stores/flow-store";
+import { useTranslation } from "@/lib/stores/locale-store";
+import { createShareLink, ShareLinkError } from "@/lib/share";
+
+const COPIED_DURATION = 2000;
+
+// 把整棵工作流程树压缩进链接并复制到剪贴板
+export function ShareButton({ disabled }: { disabled?: boolean }) {
+  const { flowData } = useFlowStore();
+  const { t } = useTranslation();
+  const [isCopied, setIsCopied] = useState(false);
+
+  useEffect(() => {
+    if (!isCopied) return;
+    const timer = setTimeout(() => setIsCopied(false), COPIED_DURATION);
+    return () => clearTimeout(timer);
+  }, [isCopied]);
+
+  if (!flowData) return null;
+
+  const share = async () => {
+    let link: string;
+    try {
+      link = await createShareLink(flowData, window.location.href);
+    } catch (error) {
+      console.error("Error creating share link:", error);
+      if (!(error instanceof ShareLinkError)) {
+        window.alert(error instanceof Error ? error.message : String(error));
+      } else {
+        window.alert(
+          error.code === "too_large"
+            ? t("share.tooLarge")
+            : t(`share.error.${error.code}`)
+        );
+      }
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(link);
+      setIsCopied(true);
+    } catch {
+      // 非 HTTPS 页面等情况下无法写入剪贴板
+      window.prompt(t("share.copyManually"), link);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      onClick={share}
+      disabled={disabled}
+      title={t("share.title")}
+    >
+      {isCopied ? <Check /> : <Share2 />}
+      {isCopied ? t("share.copied") : t("share.button")}
+    </Button>
+  );
+}
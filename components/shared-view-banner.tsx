@@ -0,0 +1,58 @@
+"use client";
+
+import React from "react";
+import { AlertTriangle, CopyPlus, Eye, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useFlowStore } from "@/lib/stores/flow-store";
+import { useProjectStore } from "@/lib/stores/project-store";
+import { useTranslation } from "@/lib/stores/locale-store";
+import { ShareErrorCode } from "@/lib/share";
+
+// 查看分享链接时显示只读提示与“复制到我的项目”，链接无法打开时显示原因
+export function SharedViewBanner({
+  error,
+  onDismissError,
+}: {
+  error: ShareErrorCode | null;
+  onDismissError: () => void;
+}) {
+  const { flowData, isReadOnly } = useFlowStore();
+  const { createProject } = useProjectStore();
+  const { t } = useTranslation();
+
+  if (error) {
+    return (
+      <div
+        className="absolute left-1/2 top-4 z-20 flex max-w-[60%] -translate-x-1/2 items-center gap-2 rounded-md border border-destructive/50 bg-background/95 px-3 py-2 text-sm text-destructive shadow-sm"
+        role="alert"
+      >
+        <AlertTriangle className="h-4 w-4 shrink-0" />
+        <div className="min-w-0 flex-1 font-medium">
+          {t(`share.error.${error}`)}
+        </div>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-6 w-6 shrink-0"
+          onClick={onDismissError}
+          title={t("share.dismiss")}
+        >
+          <X />
+        </Button>
+      </div>
+    );
+  }
+
+  if (!isReadOnly || !flowData) return null;
+
+  return (
+    <div className="absolute left-1/2 top-4 z-20 flex max-w-[60%] -translate-x-1/2 items-center gap-3 rounded-md border bg-background/95 px-3 py-2 text-sm shadow-sm">
+      <Eye className="h-4 w-4 shrink-0 text-muted-foreground" />
+      <div className="min-w-0 flex-1">{t("share.readOnly")}</div>
+      <Button size="sm" onClick={() => createProject(flowData.label, flowData)}>
+        <CopyPlus />
+        {t("share.makeCopy")}
+      </Button>
+    </div>
+  );
+}
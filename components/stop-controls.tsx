@@ -0,0 +1,43 @@
+"use client";
+
+import React from "react";
+import { Square, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useTranslation } from "@/lib/stores/locale-store";
+
+// 拆解进行中显示的停止按钮：停止后保留或丢弃已经收到的环节
+export function StopControls({
+  onStop,
+  compact,
+}: {
+  onStop: (keepPartial: boolean) => void;
+  compact?: boolean;
+}) {
+  const { t } = useTranslation();
+  const size = compact ? "sm" : "icon";
+  const className = compact ? "nodrag px-2 text-muted-foreground" : "";
+  const iconClassName = compact ? "h-3 w-3" : "";
+
+  return (
+    <>
+      <Button
+        size={size}
+        variant={compact ? "ghost" : "outline"}
+        className={className}
+        onClick={() => onStop(true)}
+        title={t("stop.keep")}
+      >
+        <Square className={iconClassName} />
+      </Button>
+      <Button
+        size={size}
+        variant={compact ? "ghost" : "outline"}
+        className={className}
+        onClick={() => onStop(false)}
+        title={t("stop.discard")}
+      >
+        <Trash2 className={iconClassName} />
+      </Button>
+    </>
+  );
+}
@@ -0,0 +1,277 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { FlowData, useFlowStore } from "@/lib/stores/flow-store";
+import { useTranslation } from "@/lib/stores/locale-store";
+import { Locale, translate } from "@/lib/i18n";
+import { findPath } from "@/lib/tree";
+import { formatDuration, formatPercent, TimeBudget } from "@/lib/time-budget";
+import {
+  arcPath,
+  ChartArc,
+  ChartRect,
+  layoutIcicle,
+  layoutSunburst,
+  layoutTreemap,
+  TimeChartKind,
+} from "@/lib/time-charts";
+
+// 区域小于该宽度时不显示名称
+const MIN_LABEL_WIDTH = 36;
+const MIN_LABEL_HEIGHT = 16;
+
+// 按第一级分支取色，越深的层级越浅
+function regionFill(branch: number): string {
+  return branch < 0
+    ? "hsl(var(--muted))"
+    : `hsl(var(--chart-${(branch % 5) + 1}))`;
+}
+
+function regionOpacity(depth: number): number {
+  return depth === 0 ? 1 : Math.max(0.35, 1 - (depth - 1) * 0.18);
+}
+
+function regionTitle(
+  root: FlowData,
+  node: FlowData,
+  share: number,
+  timeBudget: TimeBudget | undefined,
+  locale: Locale
+): string {
+  const path = findPath(root, node.id)
+    .map((item) => item.label)
+    .join(" / ");
+  const percent = formatPercent(share);
+  const summary = timeBudget
+    ? translate(locale, "chart.shareWithDuration", {
+        percent,
+        duration: formatDuration(timeBudget, share, locale),
+      })
+    : translate(locale, "node.shareOfRoot", { percent });
+  return `${path}\n${summary}`;
+}
+
+// 监听容器内容区的尺寸，图表随窗口大小重新计算
+function useElementSize() {
+  const ref = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) =>
+      setSize({
+        width: entry.contentRect.width,
+        height: entry.contentRect.height,
+      })
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  return { ref, size };
+}
+
+function RectRegions({
+  rects,
+  root,
+  selectedNodeId,
+  onSelect,
+}: {
+  rects: ChartRect[];
+  root: FlowData;
+  selectedNodeId: string | null;
+  onSelect: (nodeId: string) => void;
+}) {
+  const { locale } = useTranslation();
+
+  return (
+    <>
+      {rects.map((rect) => {
+        const showLabel =
+          rect.width >= MIN_LABEL_WIDTH && rect.height >= MIN_LABEL_HEIGHT;
+        return (
+          <g
+            key={rect.node.id}
+            className="cursor-pointer"
+            onClick={() => onSelect(rect.node.id)}
+          >
+            <title>
+              {regionTitle(
+                root,
+                rect.node,
+                rect.share,
+                root.timeBudget,
+                locale
+              )}
+            </title>
+            <rect
+              x={rect.x}
+              y={rect.y}
+              width={Math.max(0, rect.width)}
+              height={Math.max(0, rect.height)}
+              fill={regionFill(rect.branch)}
+              fillOpacity={regionOpacity(rect.depth)}
+              stroke={
+                rect.node.id === selectedNodeId
+                  ? "hsl(var(--primary))"
+                  : "hsl(var(--background))"
+              }
+              strokeWidth={rect.node.id === selectedNodeId ? 3 : 1}
+              className="transition-opacity hover:opacity-80"
+            />
+            {showLabel && (
+              <foreignObject
+                x={rect.x}
+                y={rect.y}
+                width={rect.width}
+                height={Math.min(rect.height, 40)}
+                className="pointer-events-none"
+              >
+                <div className="truncate px-1.5 pt-0.5 text-xs text-foreground">
+                  {rect.node.label}
+                  <span className="ml-1 text-muted-foreground">
+                    {formatPercent(rect.share)}
+                  </span>
+                </div>
+              </foreignObject>
+            )}
+          </g>
+        );
+      })}
+    </>
+  );
+}
+
+// 沿扇区中线放置名称，按可用弧长截断
+function ArcLabel({ arc }: { arc: ChartArc }) {
+  const radius = (arc.innerRadius + arc.outerRadius) / 2;
+  const angle = (arc.startAngle + arc.endAngle) / 2;
+  const ringWidth = arc.outerRadius - arc.innerRadius;
+  // 根节点位于圆心，可用宽度为直径
+  const available =
+    arc.depth === 0
+      ? arc.outerRadius * 2
+      : Math.min((arc.endAngle - arc.startAngle) * radius, ringWidth * 1.6);
+  const maxChars = Math.floor(available / 12);
+  if (maxChars < 2) return null;
+
+  const label =
+    arc.node.label.length > maxChars
+      ? `${arc.node.label.slice(0, maxChars - 1)}…`
+      : arc.node.label;
+  const x = arc.depth === 0 ? 0 : radius * Math.sin(angle);
+  const y = arc.depth === 0 ? 0 : -radius * Math.cos(angle);
+  return (
+    <text
+      x={x}
+      y={y}
+      textAnchor="middle"
+      dominantBaseline="middle"
+      className="pointer-events-none fill-foreground text-xs"
+    >
+      {label}
+    </text>
+  );
+}
+
+function ArcRegions({
+  arcs,
+  root,
+  selectedNodeId,
+  onSelect,
+}: {
+  arcs: ChartArc[];
+  root: FlowData;
+  selectedNodeId: string | null;
+  onSelect: (nodeId: string) => void;
+}) {
+  const { locale } = useTranslation();
+
+  return (
+    <>
+      {arcs.map((arc) => (
+        <g
+          key={arc.node.id}
+          className="cursor-pointer"
+          onClick={() => onSelect(arc.node.id)}
+        >
+          <title>
+            {regionTitle(root, arc.node, arc.share, root.timeBudget, locale)}
+          </title>
+          <path
+            d={arcPath(arc)}
+            fill={regionFill(arc.branch)}
+            fillOpacity={regionOpacity(arc.depth)}
+            stroke={
+              arc.node.id === selectedNodeId
+                ? "hsl(var(--primary))"
+                : "hsl(var(--background))"
+            }
+            strokeWidth={arc.node.id === selectedNodeId ? 3 : 1}
+            className="transition-opacity hover:opacity-80"
+          />
+          <ArcLabel arc={arc} />
+        </g>
+      ))}
+    </>
+  );
+}
+
+// 按占总时长绘制金字塔图、矩形树图或旭日图，点击区域在流程图中选中对应节点
+export function TimeChartView({ kind }: { kind: TimeChartKind }) {
+  const { flowData, selectedNodeId, selectNode } = useFlowStore();
+  const { ref, size } = useElementSize();
+  const { t } = useTranslation();
+
+  const { width, height } = size;
+
+  const regions = useMemo(() => {
+    if (!flowData || width === 0 || height === 0) return null;
+    if (kind === "sunburst") {
+      return {
+        shape: "arc" as const,
+        arcs: layoutSunburst(flowData, Math.min(width, height) / 2),
+      };
+    }
+    return {
+      shape: "rect" as const,
+      rects:
+        kind === "icicle"
+          ? layoutIcicle(flowData, width, height)
+          : layoutTreemap(flowData, width, height),
+    };
+  }, [flowData, kind, width, height]);
+
+  return (
+    <div ref={ref} className="absolute inset-0 z-10 bg-background p-4">
+      {!flowData ? (
+        <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+          {t("chart.empty")}
+        </div>
+      ) : (
+        regions && (
+          <svg width={width} height={height}>
+            {regions.shape === "arc" ? (
+              <g transform={`translate(${width / 2} ${height / 2})`}>
+                <ArcRegions
+                  arcs={regions.arcs}
+                  root={flowData}
+                  selectedNodeId={selectedNodeId}
+                  onSelect={selectNode}
+                />
+              </g>
+            ) : (
+              <RectRegions
+                rects={regions.rects}
+                root={flowData}
+                selectedNodeId={selectedNodeId}
+                onSelect={selectNode}
+              />
+            )}
+          </svg>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import React from "react";
+import { LayoutGrid, Network, PieChart, Triangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useFlowStore } from "@/lib/stores/flow-store";
+import { useTranslation } from "@/lib/stores/locale-store";
+import { ViewMode } from "@/lib/time-charts";
+
+const VIEW_MODES: { value: ViewMode; icon: React.ReactNode }[] = [
+  { value: "graph", icon: <Network /> },
+  { value: "icicle", icon: <Triangle /> },
+  { value: "treemap", icon: <LayoutGrid /> },
+  { value: "sunburst", icon: <PieChart /> },
+];
+
+// 在流程图与按用时占比绘制的图表之间切换
+export function ViewSwitcher() {
+  const { viewMode, setViewMode } = useFlowStore();
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex">
+      {VIEW_MODES.map(({ value, icon }, index) => (
+        <Button
+          key={value}
+          size="icon"
+          variant={value === viewMode ? "default" : "outline"}
+          className={`${index > 0 ? "rounded-l-none border-l-0" : ""} ${
+            index < VIEW_MODES.length - 1 ? "rounded-r-none" : ""
+          }`}
+          onClick={() => setViewMode(value)}
+          title={t(`view.${value}`)}
+        >
+          {icon}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import {
+  decomposeWorkflow,
+  isAbortError,
+  RejectedRequestError,
+} from "@/lib/llm";
+import { getActivePromptTemplate } from "@/lib/stores/template-store";
+import { FlowData, useFlowStore } from "@/lib/stores/flow-store";
+import { findNode, walkTree } from "@/lib/tree";
+import { getTreeLanguage } from "@/lib/i18n";
+
+export interface AutoExpandOptions {
+  // 在起始节点下再展开的层数
+  levels: number;
+  // 同时进行的拆解请求数
+  concurrency: number;
+  // 整棵树的节点数达到上限后不再拆分
+  maxNodes: number;
+  // 绝对用时（小时）低于该值的环节不再拆分，需要根节点设置时间预算
+  minHours?: number;
+  signal?: AbortSignal;
+}
+
+export interface AutoExpandProgress {
+  completed: number;
+  failed: number;
+  // 排队中和进行中的环节
+  remaining: number;
+}
+
+// 起始环节在开始展开前已被删除
+export class AutoExpandError extends Error {
+  constructor(
+    readonly code: "node_not_found",
+    message: string
+  ) {
+    super(message);
+    this.name = "AutoExpandError";
+  }
+}
+
+export const DEFAULT_AUTO_EXPAND_OPTIONS: Omit<AutoExpandOptions, "signal"> = {
+  levels: 2,
+  concurrency: 3,
+  maxNodes: 100,
+};
+
+function countNodes(root: FlowData): number {
+  let count = 0;
+  walkTree(root, () => count++);
+  return count;
+}
+
+// 判断环节是否还需要继续拆分
+function shouldExpand(
+  root: FlowData,
+  nodeId: string,
+  maxDepth: number,
+  options: AutoExpandOptions
+): boolean {
+  let result = false;
+  walkTree(root, ({ node, shareOfRoot }) => {
+    if (node.id !== nodeId) return;
+    const hours = root.timeBudget
+      ? root.timeBudget.hours * shareOfRoot
+      : undefined;
+    result =
+      node.children.length === 0 &&
+      node.depth < maxDepth &&
+      node.label.length > 1 &&
+      !(
+        options.minHours !== undefined &&
+        hours !== undefined &&
+        hours < options.minHours
+      );
+  });
+  return result;
+}
+
+// 从指定节点开始按广度优先逐层拆分叶子环节，直到达到目标深度或停止条件。
+// 每次请求都使用最新的整棵树作为上下文，避免与先拆出的环节重复
+export async function autoExpand(
+  startId: string,
+  options: AutoExpandOptions,
+  onProgress?: (progress: AutoExpandProgress) => void
+): Promise<AutoExpandProgress> {
+  const root = useFlowStore.getState().flowData;
+  const start = root ? findNode(root, startId) : null;
+  if (!root || !start) {
+    throw new AutoExpandError("node_not_found", `Node ${startId} not found`);
+  }
+  const maxDepth = start.depth + options.levels;
+
+  // 起始节点下已有的叶子环节，按层级排序后依次拆分
+  const leaves: FlowData[] = [];
+  walkTree(start, ({ node }) => {
+    if (node.children.length === 0) leaves.push(node);
+  });
+  const queue = leaves.sort((a, b) => a.depth - b.depth).map((node) => node.id);
+
+  const progress: AutoExpandProgress = {
+    completed: 0,
+    failed: 0,
+    remaining: queue.length,
+  };
+  let running = 0;
+  const report = () => {
+    progress.remaining = queue.length + running;
+    onProgress?.({ ...progress });
+  };
+
+  const expandNode = async (nodeId: string) => {
+    const current = useFlowStore.getState().flowData;
+    const node = current ? findNode(current, nodeId) : null;
+    if (!current || !node) return;
+
+    const children: FlowData[] = [];
+    const {
+      updateFlowDataNode,
+      patchFlowDataNode,
+      setRequestError,
+      modelConfig,
+      bypassCache,
+    } = useFlowStore.getState();
+    try {
+      const steps = await decomposeWorkflow(
+        node.label,
+        current,
+        node.id,
+        (part) => {
+          children.push({
+            id: `node-${Math.random()}`,
+            label: part.text,
+            depth: node.depth + 1,
+            ratio: part.ratio,
+            children: [],
+          });
+          updateFlowDataNode(node.id, [...children]);
+        },
+        {
+          model: modelConfig,
+          template: getActivePromptTemplate(),
+          language: getTreeLanguage(current),
+          bypassCache,
+          // 停止时中止进行中的请求，已经收到的子环节保留在树中
+          signal: options.signal,
+          onRetry: () => {
+            children.length = 0;
+            updateFlowDataNode(node.id, []);
+          },
+          onValidation: (checks) => patchFlowDataNode(node.id, { checks }),
+        }
+      );
+      // 流式显示的是模型给出的原始比例，结束后换成规范化后的结果
+      if (children.length > 0) {
+        children.forEach((child, index) => {
+          children[index] = {
+            ...child,
+            ratio: steps[index]?.ratio ?? child.ratio,
+          };
+        });
+        updateFlowDataNode(node.id, [...children]);
+      }
+      progress.completed++;
+      queue.push(...children.map((child) => child.id));
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Error expanding node:", error);
+      progress.failed++;
+      if (error instanceof RejectedRequestError) {
+        setRequestError(error.toBody());
+        // 被限流后剩下的请求也会被拒绝，不再继续展开
+        if (error.code === "rate_limited") queue.length = 0;
+      }
+    }
+  };
+
+  // 固定数量的工作者从同一个队列取任务，队列空了但仍有请求进行中时等待新任务
+  const worker = async () => {
+    for (;;) {
+      if (options.signal?.aborted) return;
+      const latest = useFlowStore.getState().flowData;
+      if (!latest || countNodes(latest) >= options.maxNodes) {
+        queue.length = 0;
+        return;
+      }
+      const nodeId = queue.shift();
+      if (nodeId === undefined) {
+        if (running === 0) return;
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        continue;
+      }
+      if (!shouldExpand(latest, nodeId, maxDepth, options)) {
+        report();
+        continue;
+      }
+
+      running++;
+      report();
+      await expandNode(nodeId);
+      running--;
+      report();
+    }
+  };
+
+  const { beginHistoryGroup, endHistoryGroup } = useFlowStore.getState();
+  // 整次自动展开只占一步撤销记录
+  beginHistoryGroup();
+  try {
+    report();
+    await Promise.all(
+      Array.from({ length: Math.max(1, options.concurrency) }, worker)
+    );
+  } finally {
+    endHistoryGroup();
+  }
+  queue.length = 0;
+  report();
+  return progress;
+}
@@ -0,0 +1,50 @@
+import { FlowData } from "@/lib/stores/flow-store";
+
+// 单个环节的 AI 提效评估
+export interface AutomationAssessment {
+  // 可由 AI 接管的程度（0-1）
+  score: number;
+  // 建议的做法
+  approach: string;
+  tools: string[];
+  // 预计可以节省该环节用时的比例（0-1）
+  timeReduction: number;
+}
+
+// 以节点 id 为键的评估结果
+export type AutomationAssessments = Record<string, AutomationAssessment>;
+
+export type AutomationLevel = "high" | "medium" | "low";
+
+export function getAutomationLevel(score: number): AutomationLevel {
+  if (score >= 0.7) return "high";
+  if (score >= 0.4) return "medium";
+  return "low";
+}
+
+// 按节点汇总可节省的用时（占该节点用时的比例）：
+// 有子环节时按比例加权子环节的结果，没有评估的环节沿用最近上级的估计
+export function computeSavedShares(root: FlowData): Map<string, number> {
+  const shares = new Map<string, number>();
+  const visit = (node: FlowData, inherited: number | undefined): number => {
+    const own = node.automation?.timeReduction ?? inherited;
+    const share =
+      node.children.length > 0
+        ? node.children.reduce(
+            (sum, child) => sum + child.ratio * visit(child, own),
+            0
+          )
+        : (own ?? 0);
+    shares.set(node.id, share);
+    return share;
+  };
+  visit(root, undefined);
+  return shares;
+}
+
+export function hasAutomationAssessments(root: FlowData): boolean {
+  return (
+    root.automation !== undefined ||
+    root.children.some(hasAutomationAssessments)
+  );
+}
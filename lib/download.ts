@@ -0,0 +1,19 @@
+// 触发浏览器下载
+export function downloadURL(filename: string, url: string) {
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+}
+
+export function downloadText(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  downloadURL(filename, url);
+  // 部分浏览器在 click() 返回后才开始读取，立即释放会导致下载失败
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// 去掉文件名中不允许出现的字符
+export function toFilename(label: string): string {
+  return label.replace(/[\\/:*?"<>|\s]+/g, "_").slice(0, 60) || "workflow";
+}
@@ -0,0 +1,94 @@
+import { FlowData } from "@/lib/stores/flow-store";
+import { CURRENT_SCHEMA_VERSION } from "@/lib/storage/migrations";
+import { walkTree } from "@/lib/tree";
+import { formatPercent } from "@/lib/time-budget";
+
+// 导出文件中的格式标识，导入时用来识别本应用的 JSON
+export const EXPORT_FORMAT = "pyramid-model";
+
+// 缩进的 Markdown 大纲，每个环节后附带占上级的比例
+export function toMarkdownOutline(root: FlowData): string {
+  const lines: string[] = [];
+  walkTree(root, ({ node, path }) => {
+    const indent = "  ".repeat(path.length - 1);
+    lines.push(`${indent}- ${node.label}（${formatPercent(node.ratio)}）`);
+  });
+  return lines.join("\n") + "\n";
+}
+
+// 只保留持久字段并固定键的顺序，相同的树总是得到相同的输出
+function toCanonicalNode(node: FlowData): FlowData {
+  return {
+    id: node.id,
+    label: node.label,
+    depth: node.depth,
+    ratio: node.ratio,
+    ...(node.timeBudget && { timeBudget: node.timeBudget }),
+    ...(node.language && { language: node.language }),
+    ...(node.automation && { automation: node.automation }),
+    children: node.children.map(toCanonicalNode),
+  };
+}
+
+export function toCanonicalJSON(root: FlowData): string {
+  return (
+    JSON.stringify(
+      {
+        format: EXPORT_FORMAT,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        root: toCanonicalNode(root),
+      },
+      null,
+      2
+    ) + "\n"
+  );
+}
+
+function escapeCSV(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// 扁平的 CSV：路径、层级、占上级比例、占根节点比例
+export function toCSV(root: FlowData): string {
+  const rows = [["path", "depth", "ratio", "share_of_root"]];
+  walkTree(root, ({ node, path, shareOfRoot }) => {
+    rows.push([
+      path.join(" / "),
+      String(node.depth),
+      node.ratio.toFixed(4),
+      shareOfRoot.toFixed(4),
+    ]);
+  });
+  return rows.map((row) => row.map(escapeCSV).join(",")).join("\n") + "\n";
+}
+
+// 引号会结束节点文字，换行会让这一行语法失效，换成实体和空格
+function escapeMermaid(label: string): string {
+  return label.replace(/"/g, "#quot;").replace(/\s*[\r\n]+\s*/g, " ");
+}
+
+// Mermaid 流程图，父子之间为实线，同级之间按顺序用虚线连接
+export function toMermaid(root: FlowData): string {
+  const lines = ["graph TD"];
+  const ids = new Map<string, string>();
+  const idOf = (node: FlowData) => {
+    if (!ids.has(node.id)) ids.set(node.id, `n${ids.size}`);
+    return ids.get(node.id) as string;
+  };
+
+  walkTree(root, ({ node, parent }) => {
+    lines.push(
+      `  ${idOf(node)}["${escapeMermaid(node.label)} ${formatPercent(
+        node.ratio
+      )}"]`
+    );
+    if (parent) lines.push(`  ${idOf(parent)} --> ${idOf(node)}`);
+  });
+  walkTree(root, ({ node }) => {
+    node.children.slice(1).forEach((child, index) => {
+      lines.push(`  ${idOf(node.children[index])} -.-> ${idOf(child)}`);
+    });
+  });
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,484 @@
+import type { FlowData } from "@/lib/stores/flow-store";
+
+// 界面语言，同时也是新生成的工作流程树的输出语言
+export type Locale = "zh" | "en";
+
+export const LOCALES: Locale[] = ["zh", "en"];
+
+export const DEFAULT_LOCALE: Locale = "zh";
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  zh: "中文",
+  en: "English",
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && LOCALES.includes(value as Locale);
+}
+
+const zh = {
+  "flow.inputPlaceholder": "输入工作内容",
+  "flow.generate": "拆解工作流程",
+  "flow.generating": "拆解中...",
+  "flow.locale": "界面与输出语言",
+  "stop.keep": "停止，保留已生成的环节",
+  "stop.discard": "停止并丢弃已生成的环节",
+  "requestError.invalid_request": "请求内容无效，未能开始拆解",
+  "requestError.payload_too_large":
+    "请求内容过大，请缩短工作内容或精简工作流程树",
+  "requestError.limit_exceeded": "超出拆解上限，请缩短工作内容或精简工作流程树",
+  "requestError.rate_limited": "请求过于频繁，请在 {seconds} 秒后重试",
+  "requestError.invalid_config": "模型或提示词模板配置无效",
+  "requestError.generation_failed":
+    "拆解失败，未完成的环节不会保留，请稍后重试",
+  "requestError.empty_result": "模型没有返回有效的结果，请稍后重试",
+  "requestError.dismiss": "关闭",
+  "cache.enabled": "复用已缓存的拆解结果，点击改为每次重新生成",
+  "cache.bypassed": "跳过缓存，每次重新生成，点击恢复复用缓存",
+  "share.button": "分享",
+  "share.title": "复制只读的分享链接",
+  "share.copied": "已复制链接",
+  "share.copyManually": "无法写入剪贴板，请手动复制分享链接：",
+  "share.tooLarge": "工作流程太大，无法放进分享链接，请改用导出 JSON",
+  "share.readOnly": "正在查看分享的工作流程，内容为只读",
+  "share.makeCopy": "复制到我的项目",
+  "share.error.too_large": "分享链接超出大小限制，无法打开",
+  "share.error.corrupt": "分享链接已损坏或不完整，请确认复制了完整的链接",
+  "share.error.unsupported_version":
+    "分享链接由更新版本的应用生成，请刷新页面后重试",
+  "share.error.unsupported_browser": "当前浏览器不支持分享链接，请升级后重试",
+  "share.dismiss": "关闭",
+  "node.level": "Level {depth}",
+  "node.ratio": "用时比例",
+  "node.shareOfRoot": "占总时长 {percent}",
+  "node.automationTools": "工具：{tools}",
+  "node.automationReduction": "预计节省本环节 {percent} 的用时",
+  "node.reclaimable": "可回收",
+  "node.savable": "可节省",
+  "node.decompose": "拆分",
+  "node.decomposing": "拆分中...",
+  "node.regenerate": "重新拆分",
+  "node.autoExpand": "自动展开到指定深度",
+  "node.expand": "展开子环节",
+  "node.collapse": "折叠子环节",
+  "node.focus": "聚焦到该分支",
+  "automation.high": "适合 AI 接管",
+  "automation.medium": "AI 辅助",
+  "automation.low": "以人工为主",
+  "duration.hours": "{value} 小时",
+  "duration.minutes": "{value} 分钟",
+  "duration.day": "天",
+  "duration.week": "周",
+  "duration.month": "月",
+  "list.separator": "、",
+  "common.close": "关闭",
+  "common.unlimited": "不限",
+  "common.copyName": "{name} 副本",
+  "checks.ratio-sum": "比例",
+  "checks.duplicates": "查重",
+  "checks.step-count": "数量",
+  "checks.ratio-sum.passed": "时间比例总和为 1",
+  "checks.ratio-sum.failed": "时间比例总和为 {sum}，应为 1",
+  "checks.duplicates.passed": "没有重复环节",
+  "checks.duplicates.existing": '"{step}" 与已有环节 "{match}" 重复',
+  "checks.duplicates.sibling": '"{step}" 与同级环节 "{match}" 重复',
+  "checks.duplicates.separator": "；",
+  "checks.step-count.passed": "共 {count} 个环节",
+  "checks.step-count.failed": "共 {count} 个环节，应在 {min} 到 {max} 个之间",
+  "edit.rename": "双击重命名",
+  "edit.ratio": "点击修改比例",
+  "edit.newStep": "新环节",
+  "edit.insertBefore": "在前面插入环节",
+  "edit.insertAfter": "在后面插入环节",
+  "edit.moveLeft": "左移",
+  "edit.moveRight": "右移",
+  "edit.delete": "删除该环节及其子环节",
+  "budget.title": "点击设置总时间预算",
+  "budget.total": "总预算 {duration}",
+  "budget.set": "设置时间预算",
+  "budget.hours": "小时",
+  "budget.hoursPer": "小时 /",
+  "search.placeholder": "搜索环节",
+  "search.noResults": "无结果",
+  "search.previous": "上一个 (Shift+Enter)",
+  "search.next": "下一个 (Enter)",
+  "search.filters": "筛选",
+  "search.clear": "清除",
+  "search.depth": "层级",
+  "search.minShare": "占总时长不低于",
+  "search.leavesOnly": "只看末级环节",
+  "search.clearFilters": "清除筛选",
+  "assess.title": "评估该环节的 AI 提效潜力",
+  "assess.button": "AI 提效评估",
+  "assess.running": "评估中...",
+  "assess.failed": "评估失败：{message}",
+  "export.button": "导出",
+  "export.markdown": "Markdown 大纲",
+  "export.json": "JSON",
+  "export.csv": "CSV",
+  "export.mermaid": "Mermaid",
+  "export.svg": "SVG 图片",
+  "export.png": "PNG 图片",
+  "import.button": "导入",
+  "import.failed": "导入失败：{message}",
+  "import.rootLabel": "导入的工作流程",
+  "import.error.no_steps": "没有找到任何工作环节",
+  "import.error.invalid_json": "JSON 格式不正确",
+  "import.error.invalid_node": "JSON 中的节点格式不正确",
+  "import.error.unnamed_node": "JSON 中存在没有名称的节点",
+  "import.error.empty_csv": "CSV 文件为空",
+  "import.error.missing_path_column": "CSV 缺少 path 列",
+  "history.undo": "撤销 (Ctrl+Z)",
+  "history.redo": "重做 (Ctrl+Shift+Z)",
+  "project.title": "项目",
+  "project.untitled": "未命名项目",
+  "project.create": "新建项目",
+  "project.rename": "重命名",
+  "project.duplicate": "复制",
+  "project.delete": "删除",
+  "project.confirmDelete": "确定删除「{name}」吗？",
+  "regenerate.title": "重新拆分",
+  "regenerate.count": "候选方案",
+  "regenerate.retry": "重新生成",
+  "regenerate.candidate": "方案 {index}",
+  "regenerate.apply": "采用此方案",
+  "regenerate.mergeHint":
+    "勾选多个方案中的环节可以合并为新的拆解，比例将重新按总和为 1 分配；采用后会替换该节点下的全部子环节",
+  "regenerate.merge": "合并所选环节（{count}）",
+  "autoExpand.title": "自动展开",
+  "autoExpand.levels": "展开层数",
+  "autoExpand.concurrency": "并发请求数",
+  "autoExpand.maxNodes": "最多节点数",
+  "autoExpand.minHours": "最短用时（小时）",
+  "autoExpand.needsBudget": "需设置预算",
+  "autoExpand.start": "开始展开",
+  "autoExpand.completed": "已拆分 {count} 个环节",
+  "autoExpand.failed": "，失败 {count} 个",
+  "autoExpand.remaining": "，剩余 {count} 个",
+  "autoExpand.stopping": "等待进行中的请求...",
+  "autoExpand.stop": "停止",
+  "autoExpand.done": "完成",
+  "autoExpand.error.node_not_found": "找不到要展开的环节，它可能已被删除",
+  "focus.exit": "退出聚焦",
+  "chart.empty": "拆解工作流程后可查看用时分布",
+  "chart.shareWithDuration": "占总时长 {percent}，{duration}",
+  "view.graph": "流程图",
+  "view.icicle": "金字塔图",
+  "view.treemap": "矩形树图",
+  "view.sunburst": "旭日图",
+  "layout.top-down": "自上而下",
+  "layout.left-right": "从左到右",
+  "layout.radial": "放射状",
+  "model.provider": "模型提供方",
+  "model.model": "模型",
+  "model.temperature": "温度",
+  "provider.openai": "OpenAI 兼容网关",
+  "provider.ollama": "本地 Ollama",
+  "provider.mock": "离线模拟",
+  "template.select": "提示词模板",
+  "template.builtInGroup": "内置模板",
+  "template.customGroup": "自定义模板",
+  "template.manage": "管理提示词模板",
+  "template.builtIn": "内置",
+  "template.custom": "自定义",
+  "template.currentProject": " · 当前项目",
+  "template.untitled": "未命名模板",
+  "template.readOnly": "内置模板不可修改，可复制后编辑",
+  "template.duplicate": "复制",
+  "template.delete": "删除",
+  "template.save": "保存",
+  "template.useForProject": "用于当前项目",
+  "template.confirmDiscard": "放弃未保存的修改？",
+  "template.confirmDelete": "删除模板“{name}”？",
+  "template.name": "名称",
+  "template.description": "说明",
+  "template.role": "角色",
+  "template.task": "任务说明",
+  "template.taskHint": "需要包含 {input} 与 {context}",
+  "template.rules": "规则",
+  "template.rulesHint": "每行一条",
+  "template.examples": "示例",
+  "template.addExample": "添加示例",
+  "template.outputFormat": "输出格式",
+  "template.outputFormatHint": "需要包含 {format_instructions}",
+  "template.showPreview": "预览完整提示词",
+  "template.hidePreview": "收起预览",
+  "template.exampleKind": "正例或反例",
+  "template.exampleCorrect": "正确",
+  "template.exampleWrong": "错误",
+  "template.exampleInput": "工作内容",
+  "template.exampleSteps": "拆解结果，用顿号分隔",
+  "template.exampleReason": "原因",
+  "template.removeExample": "删除",
+  "builtInTemplate.general.name": "通用",
+  "builtInTemplate.general.description": "适用于大多数岗位的工作拆解",
+  "builtInTemplate.sales.name": "销售",
+  "builtInTemplate.sales.description": "按销售漏斗拆解获客、跟进与成交",
+  "builtInTemplate.support.name": "客户支持",
+  "builtInTemplate.support.description": "按工单生命周期拆解受理、排查与回访",
+  "builtInTemplate.engineering.name": "研发",
+  "builtInTemplate.engineering.description":
+    "按软件交付流程拆解设计、实现与上线",
+  "templateError.name": "模板名称不能为空",
+  "templateError.role": "角色不能为空",
+  "templateError.task": "任务说明不能为空",
+  "templateError.rules": "至少需要一条规则",
+  "templateError.outputFormat": "输出格式不能为空",
+  "templateError.example": "示例 {index} 需要填写工作内容和拆解结果",
+  "templateError.missingPlaceholder": "缺少占位符 {{placeholder}}",
+  "templateError.unknownPlaceholder": "不支持的占位符 {{placeholder}}",
+  "templateError.strayBraces":
+    "花括号需要成对出现，普通文本中的花括号请写成 {{ 或 }}",
+};
+
+export type MessageKey = keyof typeof zh;
+
+const en: Record<MessageKey, string> = {
+  "flow.inputPlaceholder": "Describe a job or task",
+  "flow.generate": "Decompose workflow",
+  "flow.generating": "Decomposing...",
+  "flow.locale": "Interface and output language",
+  "stop.keep": "Stop and keep the steps received so far",
+  "stop.discard": "Stop and discard the steps received so far",
+  "requestError.invalid_request":
+    "The request was invalid, so decomposition did not start",
+  "requestError.payload_too_large":
+    "The request is too large. Shorten the description or trim the workflow tree",
+  "requestError.limit_exceeded":
+    "Decomposition limits exceeded. Shorten the description or trim the workflow tree",
+  "requestError.rate_limited": "Too many requests. Try again in {seconds} s",
+  "requestError.invalid_config":
+    "The model or prompt template configuration is invalid",
+  "requestError.generation_failed":
+    "Decomposition failed and incomplete steps were not kept. Please try again",
+  "requestError.empty_result":
+    "The model returned no usable result. Please try again",
+  "requestError.dismiss": "Dismiss",
+  "cache.enabled":
+    "Reusing cached decompositions. Click to always generate fresh ones",
+  "cache.bypassed":
+    "Bypassing the cache and generating fresh decompositions. Click to reuse cached ones",
+  "share.button": "Share",
+  "share.title": "Copy a read-only share link",
+  "share.copied": "Link copied",
+  "share.copyManually":
+    "Could not write to the clipboard. Copy the share link manually:",
+  "share.tooLarge":
+    "This workflow is too large for a share link. Export it as JSON instead",
+  "share.readOnly": "You are viewing a shared workflow. It is read-only",
+  "share.makeCopy": "Make a copy",
+  "share.error.too_large": "This share link exceeds the size limit",
+  "share.error.corrupt":
+    "This share link is corrupt or incomplete. Make sure the whole link was copied",
+  "share.error.unsupported_version":
+    "This share link was created by a newer version of the app. Reload the page and try again",
+  "share.error.unsupported_browser":
+    "This browser does not support share links. Update it and try again",
+  "share.dismiss": "Dismiss",
+  "node.level": "Level {depth}",
+  "node.ratio": "Time share",
+  "node.shareOfRoot": "{percent} of total",
+  "node.automationTools": "Tools: {tools}",
+  "node.automationReduction": "Expected to save {percent} of this step's time",
+  "node.reclaimable": "Reclaimable",
+  "node.savable": "Savable",
+  "node.decompose": "Split",
+  "node.decomposing": "Splitting...",
+  "node.regenerate": "Re-split",
+  "node.autoExpand": "Auto-expand to a set depth",
+  "node.expand": "Expand sub-steps",
+  "node.collapse": "Collapse sub-steps",
+  "node.focus": "Focus on this branch",
+  "automation.high": "AI can take over",
+  "automation.medium": "AI-assisted",
+  "automation.low": "Mostly manual",
+  "duration.hours": "{value} h",
+  "duration.minutes": "{value} min",
+  "duration.day": "day",
+  "duration.week": "week",
+  "duration.month": "month",
+  "list.separator": ", ",
+  "common.close": "Close",
+  "common.unlimited": "Any",
+  "common.copyName": "{name} (copy)",
+  "checks.ratio-sum": "Ratios",
+  "checks.duplicates": "Duplicates",
+  "checks.step-count": "Count",
+  "checks.ratio-sum.passed": "Ratios sum to 1",
+  "checks.ratio-sum.failed": "Ratios sum to {sum} instead of 1",
+  "checks.duplicates.passed": "No duplicate steps",
+  "checks.duplicates.existing":
+    '"{step}" duplicates the existing step "{match}"',
+  "checks.duplicates.sibling": '"{step}" duplicates the sibling step "{match}"',
+  "checks.duplicates.separator": "; ",
+  "checks.step-count.passed": "{count} steps",
+  "checks.step-count.failed": "{count} steps, expected between {min} and {max}",
+  "edit.rename": "Double-click to rename",
+  "edit.ratio": "Click to change the ratio",
+  "edit.newStep": "New step",
+  "edit.insertBefore": "Insert a step before",
+  "edit.insertAfter": "Insert a step after",
+  "edit.moveLeft": "Move left",
+  "edit.moveRight": "Move right",
+  "edit.delete": "Delete this step and its sub-steps",
+  "budget.title": "Click to set the total time budget",
+  "budget.total": "Budget {duration}",
+  "budget.set": "Set a time budget",
+  "budget.hours": "Hours",
+  "budget.hoursPer": "h /",
+  "search.placeholder": "Search steps",
+  "search.noResults": "No results",
+  "search.previous": "Previous (Shift+Enter)",
+  "search.next": "Next (Enter)",
+  "search.filters": "Filters",
+  "search.clear": "Clear",
+  "search.depth": "Level",
+  "search.minShare": "Share of total at least",
+  "search.leavesOnly": "Leaf steps only",
+  "search.clearFilters": "Clear filters",
+  "assess.title": "Assess the AI automation potential of this step",
+  "assess.button": "AI automation",
+  "assess.running": "Assessing...",
+  "assess.failed": "Assessment failed: {message}",
+  "export.button": "Export",
+  "export.markdown": "Markdown outline",
+  "export.json": "JSON",
+  "export.csv": "CSV",
+  "export.mermaid": "Mermaid",
+  "export.svg": "SVG image",
+  "export.png": "PNG image",
+  "import.button": "Import",
+  "import.failed": "Import failed: {message}",
+  "import.rootLabel": "Imported workflow",
+  "import.error.no_steps": "No workflow steps were found",
+  "import.error.invalid_json": "The file is not valid JSON",
+  "import.error.invalid_node": "A node in the JSON has an invalid format",
+  "import.error.unnamed_node": "A node in the JSON has no name",
+  "import.error.empty_csv": "The CSV file is empty",
+  "import.error.missing_path_column": "The CSV file has no path column",
+  "history.undo": "Undo (Ctrl+Z)",
+  "history.redo": "Redo (Ctrl+Shift+Z)",
+  "project.title": "Projects",
+  "project.untitled": "Untitled project",
+  "project.create": "New project",
+  "project.rename": "Rename",
+  "project.duplicate": "Duplicate",
+  "project.delete": "Delete",
+  "project.confirmDelete": "Delete “{name}”?",
+  "regenerate.title": "Re-split",
+  "regenerate.count": "Candidates",
+  "regenerate.retry": "Regenerate",
+  "regenerate.candidate": "Option {index}",
+  "regenerate.apply": "Use this option",
+  "regenerate.mergeHint":
+    "Check steps from several options to merge them into a new split. Ratios are rescaled to sum to 1, and applying replaces all sub-steps of this node",
+  "regenerate.merge": "Merge selected steps ({count})",
+  "autoExpand.title": "Auto-expand",
+  "autoExpand.levels": "Levels",
+  "autoExpand.concurrency": "Parallel requests",
+  "autoExpand.maxNodes": "Maximum nodes",
+  "autoExpand.minHours": "Minimum time (hours)",
+  "autoExpand.needsBudget": "Needs a budget",
+  "autoExpand.start": "Start",
+  "autoExpand.completed": "Split {count} steps",
+  "autoExpand.failed": ", {count} failed",
+  "autoExpand.remaining": ", {count} remaining",
+  "autoExpand.stopping": "Waiting for running requests...",
+  "autoExpand.stop": "Stop",
+  "autoExpand.done": "Done",
+  "autoExpand.error.node_not_found":
+    "The step to expand was not found. It may have been deleted",
+  "focus.exit": "Exit focus",
+  "chart.empty": "Decompose a workflow to see how its time is spent",
+  "chart.shareWithDuration": "{percent} of total, {duration}",
+  "view.graph": "Flow chart",
+  "view.icicle": "Pyramid chart",
+  "view.treemap": "Treemap",
+  "view.sunburst": "Sunburst",
+  "layout.top-down": "Top down",
+  "layout.left-right": "Left to right",
+  "layout.radial": "Radial",
+  "model.provider": "Model provider",
+  "model.model": "Model",
+  "model.temperature": "Temperature",
+  "provider.openai": "OpenAI-compatible gateway",
+  "provider.ollama": "Local Ollama",
+  "provider.mock": "Offline mock",
+  "template.select": "Prompt template",
+  "template.builtInGroup": "Built-in templates",
+  "template.customGroup": "Custom templates",
+  "template.manage": "Manage prompt templates",
+  "template.builtIn": "Built-in",
+  "template.custom": "Custom",
+  "template.currentProject": " · Current project",
+  "template.untitled": "Untitled template",
+  "template.readOnly":
+    "Built-in templates are read-only. Duplicate one to edit it",
+  "template.duplicate": "Duplicate",
+  "template.delete": "Delete",
+  "template.save": "Save",
+  "template.useForProject": "Use for this project",
+  "template.confirmDiscard": "Discard unsaved changes?",
+  "template.confirmDelete": "Delete the template “{name}”?",
+  "template.name": "Name",
+  "template.description": "Description",
+  "template.role": "Role",
+  "template.task": "Task",
+  "template.taskHint": "Must contain {input} and {context}",
+  "template.rules": "Rules",
+  "template.rulesHint": "One per line",
+  "template.examples": "Examples",
+  "template.addExample": "Add example",
+  "template.outputFormat": "Output format",
+  "template.outputFormatHint": "Must contain {format_instructions}",
+  "template.showPreview": "Preview the full prompt",
+  "template.hidePreview": "Hide preview",
+  "template.exampleKind": "Correct or wrong example",
+  "template.exampleCorrect": "Correct",
+  "template.exampleWrong": "Wrong",
+  "template.exampleInput": "Job or task",
+  "template.exampleSteps": "Steps, separated by 、",
+  "template.exampleReason": "Reason",
+  "template.removeExample": "Remove",
+  "builtInTemplate.general.name": "General",
+  "builtInTemplate.general.description": "Decomposes the work of most roles",
+  "builtInTemplate.sales.name": "Sales",
+  "builtInTemplate.sales.description":
+    "Splits prospecting, follow-up and closing along the sales funnel",
+  "builtInTemplate.support.name": "Customer support",
+  "builtInTemplate.support.description":
+    "Splits intake, troubleshooting and follow-up along the ticket lifecycle",
+  "builtInTemplate.engineering.name": "Engineering",
+  "builtInTemplate.engineering.description":
+    "Splits design, implementation and release along the software delivery process",
+  "templateError.name": "The template name is required",
+  "templateError.role": "The role is required",
+  "templateError.task": "The task is required",
+  "templateError.rules": "At least one rule is required",
+  "templateError.outputFormat": "The output format is required",
+  "templateError.example": "Example {index} needs a job and its steps",
+  "templateError.missingPlaceholder": "Missing placeholder {{placeholder}}",
+  "templateError.unknownPlaceholder": "Unsupported placeholder {{placeholder}}",
+  "templateError.strayBraces":
+    "Braces must come in pairs. Write literal braces as {{ or }}",
+};
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = { zh, en };
+
+export type TranslateParams = Record<string, string | number>;
+
+// 查找文案并替换其中的 {name} 参数
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params: TranslateParams = {}
+): string {
+  return MESSAGES[locale][key].replace(/\{(\w+)\}/g, (match, name) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+// 树的输出语言：已有的树沿用生成时的语言，早期没有记录语言的树都是中文
+export function getTreeLanguage(root: FlowData): Locale {
+  return root.language ?? DEFAULT_LOCALE;
+}
@@ -0,0 +1,369 @@
+import { FlowData } from "@/lib/stores/flow-store";
+import { EXPORT_FORMAT } from "@/lib/exporters";
+import {
+  isValidTimeBudget,
+  TIME_PERIODS,
+  TimeBudget,
+  TimePeriod,
+} from "@/lib/time-budget";
+import { AutomationAssessment } from "@/lib/automation";
+import { isLocale, Locale } from "@/lib/i18n";
+
+// 解析阶段的中间结构，比例可以缺失
+interface ImportedNode {
+  label: string;
+  ratio?: number;
+  // 只有本应用导出的 JSON 会带上根节点的时间预算与输出语言
+  timeBudget?: TimeBudget;
+  language?: Locale;
+  automation?: AutomationAssessment;
+  children: ImportedNode[];
+}
+
+export type ImportErrorCode =
+  // 文件中没有任何环节
+  | "no_steps"
+  // JSON 无法解析，或其中的节点不是对象、没有名称
+  | "invalid_json"
+  | "invalid_node"
+  | "unnamed_node"
+  // CSV 为空或缺少 path 列
+  | "empty_csv"
+  | "missing_path_column";
+
+export class ImportError extends Error {
+  constructor(
+    readonly code: ImportErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+// 行尾的比例，例如 "（30%）"、"(30%)"、"- 30%"
+const TRAILING_PERCENT = /[\s(（:：-]*(\d+(?:\.\d+)?)\s*%\s*[)）]?\s*$/;
+
+function splitLabel(text: string): { label: string; ratio?: number } {
+  const match = text.match(TRAILING_PERCENT);
+  if (!match || match.index === undefined || match.index === 0) {
+    return { label: text.trim() };
+  }
+  return {
+    label: text.slice(0, match.index).trim(),
+    ratio: Number(match[1]) / 100,
+  };
+}
+
+// 多个顶层节点时放在名为 rootLabel 的根节点下
+function wrapRoots(roots: ImportedNode[], rootLabel: string): ImportedNode {
+  if (roots.length === 0) {
+    throw new ImportError("no_steps", "No workflow steps found");
+  }
+  if (roots.length === 1) return roots[0];
+  return { label: rootLabel, children: roots };
+}
+
+// 解析缩进的 Markdown 列表或标题大纲，返回顶层节点
+export function parseMarkdownOutline(text: string): ImportedNode[] {
+  const roots: ImportedNode[] = [];
+  // 每一级最近的节点，stack[i] 对应第 i 层
+  const stack: { node: ImportedNode; indent: number }[] = [];
+  // 最近一个标题的层级，其下的列表从下一层开始
+  let headingDepth = -1;
+
+  const attach = (node: ImportedNode, depth: number, indent: number) => {
+    stack.length = Math.min(stack.length, depth);
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.node.children.push(node);
+    } else {
+      roots.push(node);
+    }
+    stack.push({ node, indent });
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/\t/g, "    ");
+    if (!line.trim()) continue;
+
+    const heading = line.match(/^\s*(#{1,6})\s+(.*)$/);
+    if (heading) {
+      const depth = Math.min(heading[1].length - 1, stack.length);
+      attach({ ...splitLabel(heading[2]), children: [] }, depth, -1);
+      headingDepth = depth;
+      continue;
+    }
+
+    const bullet = line.match(/^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (!bullet) continue;
+    const indent = bullet[1].length;
+
+    // 根据缩进找到父节点：向上找到缩进更小的列表项
+    let depth = headingDepth + 1;
+    for (let i = stack.length - 1; i > headingDepth; i--) {
+      if (stack[i].indent < indent) {
+        depth = i + 1;
+        break;
+      }
+    }
+    attach({ ...splitLabel(bullet[2]), children: [] }, depth, indent);
+  }
+
+  return roots;
+}
+
+function toTimeBudget(value: unknown): TimeBudget | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const { hours, period } = value as Record<string, unknown>;
+  if (typeof hours !== "number" || typeof period !== "string") {
+    return undefined;
+  }
+  if (!TIME_PERIODS.includes(period as TimePeriod)) return undefined;
+  const budget = { hours, period } as TimeBudget;
+  return isValidTimeBudget(budget) ? budget : undefined;
+}
+
+function toAutomation(value: unknown): AutomationAssessment | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const { score, approach, tools, timeReduction } = value as Record<
+    string,
+    unknown
+  >;
+  if (typeof score !== "number" || typeof timeReduction !== "number") {
+    return undefined;
+  }
+  return {
+    score,
+    approach: typeof approach === "string" ? approach : "",
+    tools: Array.isArray(tools)
+      ? tools.filter((tool): tool is string => typeof tool === "string")
+      : [],
+    timeReduction,
+  };
+}
+
+function toImportedNode(value: unknown): ImportedNode {
+  if (!value || typeof value !== "object") {
+    throw new ImportError("invalid_node", "JSON node is not an object");
+  }
+  const item = value as Record<string, unknown>;
+  const label = item.label ?? item.text ?? item.name;
+  if (typeof label !== "string" || !label.trim()) {
+    throw new ImportError("unnamed_node", "JSON node has no label");
+  }
+  const children = Array.isArray(item.children) ? item.children : [];
+  return {
+    label: label.trim(),
+    ratio: typeof item.ratio === "number" ? item.ratio : undefined,
+    timeBudget: toTimeBudget(item.timeBudget),
+    language: isLocale(item.language) ? item.language : undefined,
+    automation: toAutomation(item.automation),
+    children: children.map(toImportedNode),
+  };
+}
+
+// 解析本应用导出的 JSON，也接受单个 FlowData 或节点数组，返回顶层节点
+export function parseJSONTree(text: string): ImportedNode[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new ImportError("invalid_json", "File is not valid JSON");
+  }
+  if (Array.isArray(value)) return value.map(toImportedNode);
+  const document = value as Record<string, unknown>;
+  if (document?.format === EXPORT_FORMAT) {
+    return [toImportedNode(document.root)];
+  }
+  return [toImportedNode(value)];
+}
+
+// 支持引号和转义引号的 CSV 行解析
+function parseCSVRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+function parseRatioCell(cell: string | undefined): number | undefined {
+  if (!cell || !cell.trim()) return undefined;
+  const value = parseFloat(cell);
+  if (!Number.isFinite(value)) return undefined;
+  return cell.trim().endsWith("%") || value > 1 ? value / 100 : value;
+}
+
+// 导出的 CSV 用前后带空格的 " / " 连接路径，手写的文件也可能写成 "A/B" 或 "A>B"
+const SPACED_PATH_SEPARATOR = /\s+[/>]\s+/;
+const PATH_SEPARATOR = /\s*[/>]\s*/;
+
+// 解析 path/ratio 形式的 CSV。只要有一行使用带空格的分隔符，就按导出格式
+// 只在带空格的分隔符处拆分，名称中的 "CI/CD" 等不会被拆开；否则也拆分不带空格的 / 与 >
+export function parseCSV(text: string): ImportedNode[] {
+  const [header, ...rows] = parseCSVRows(text);
+  if (!header) throw new ImportError("empty_csv", "CSV file is empty");
+  const columns = header.map((cell) => cell.trim().toLowerCase());
+  const pathIndex = columns.indexOf("path");
+  if (pathIndex === -1) {
+    throw new ImportError("missing_path_column", "CSV has no path column");
+  }
+  const ratioIndex = columns.indexOf("ratio");
+  const shareIndex = columns.indexOf("share_of_root");
+
+  const roots: ImportedNode[] = [];
+  // 记录每个节点占根节点的比例，用于从 share_of_root 推算本级比例
+  const shares = new Map<ImportedNode, number>();
+
+  // 列数不足的行没有路径，直接跳过
+  const paths = rows
+    .map((row) => row[pathIndex])
+    .filter((path): path is string => path !== undefined);
+  const separator = paths.some((path) => SPACED_PATH_SEPARATOR.test(path))
+    ? SPACED_PATH_SEPARATOR
+    : PATH_SEPARATOR;
+
+  for (const row of rows) {
+    const path = row[pathIndex];
+    if (path === undefined) continue;
+    const segments = path
+      .split(separator)
+      .map((segment) => segment.trim())
+      .filter(Boolean);
+    if (segments.length === 0) continue;
+
+    let siblings = roots;
+    let parent: ImportedNode | null = null;
+    let node: ImportedNode | null = null;
+    for (const segment of segments) {
+      if (node) {
+        parent = node;
+        siblings = node.children;
+      }
+      node = siblings.find((item) => item.label === segment) ?? null;
+      if (!node) {
+        node = { label: segment, children: [] };
+        siblings.push(node);
+      }
+    }
+    if (!node) continue;
+
+    const ratio = parseRatioCell(row[ratioIndex]);
+    const share = parseRatioCell(row[shareIndex]);
+    if (share !== undefined) shares.set(node, share);
+    if (ratio !== undefined) {
+      node.ratio = ratio;
+    } else if (share !== undefined) {
+      const parentShare = parent ? shares.get(parent) : 1;
+      if (parentShare) node.ratio = share / parentShare;
+    }
+  }
+
+  return roots;
+}
+
+// 生成 FlowData：推断层级，平分缺失的比例，并让同级比例之和为 1
+export function normalizeImportedTree(root: ImportedNode): FlowData {
+  const build = (node: ImportedNode, depth: number, ratio: number) => {
+    const known = node.children.filter(
+      (child) => child.ratio !== undefined && child.ratio > 0
+    );
+    const knownSum = known.reduce((sum, child) => sum + (child.ratio ?? 0), 0);
+    const missingCount = node.children.length - known.length;
+    // 已知比例不足 1 时把剩余部分平分给缺失的环节，否则按平均值补齐
+    const missingRatio =
+      missingCount === 0
+        ? 0
+        : knownSum < 1
+          ? (1 - knownSum) / missingCount
+          : knownSum / Math.max(known.length, 1);
+    const ratios = node.children.map((child) =>
+      child.ratio !== undefined && child.ratio > 0 ? child.ratio : missingRatio
+    );
+    const total = ratios.reduce((sum, value) => sum + value, 0);
+
+    const result: FlowData = {
+      id: `node-${Math.random()}`,
+      label: node.label,
+      depth,
+      ratio,
+      children: [],
+    };
+    if (depth === 0 && node.timeBudget) result.timeBudget = node.timeBudget;
+    if (depth === 0 && node.language) result.language = node.language;
+    if (node.automation) result.automation = node.automation;
+    result.children = node.children.map((child, index) =>
+      build(
+        child,
+        depth + 1,
+        total > 0 ? ratios[index] / total : 1 / node.children.length
+      )
+    );
+    return result;
+  };
+
+  return build(root, 0, 1);
+}
+
+export type ImportFormat = "markdown" | "json" | "csv";
+
+function detectFormat(text: string, filename?: string): ImportFormat {
+  const extension = filename?.split(".").pop()?.toLowerCase();
+  if (extension === "json") return "json";
+  if (extension === "csv") return "csv";
+  if (extension === "md" || extension === "markdown") return "markdown";
+
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) return "json";
+  const firstLine = trimmed.split(/\r?\n/)[0].toLowerCase();
+  if (firstLine.includes(",") && firstLine.includes("path")) return "csv";
+  return "markdown";
+}
+
+// 按文件扩展名或内容识别格式并导入，多个顶层节点时放在名为 rootLabel 的根节点下
+export function importWorkflow(
+  text: string,
+  rootLabel: string,
+  filename?: string
+): FlowData {
+  const format = detectFormat(text, filename);
+  const roots =
+    format === "json"
+      ? parseJSONTree(text)
+      : format === "csv"
+        ? parseCSV(text)
+        : parseMarkdownOutline(text);
+  return normalizeImportedTree(wrapRoots(roots, rootLabel));
+}
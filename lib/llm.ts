@@ -1,10 +1,108 @@
 import { FlowData } from "@/lib/stores/flow-store";
+import { ModelConfig } from "@/lib/providers";
+import { AutomationAssessments } from "@/lib/automation";
+import { Locale } from "@/lib/i18n";
+import {
+  PromptTemplateData,
+  toPromptTemplateRequest,
+} from "@/lib/prompt-templates";
+import {
+  DecompositionCheck,
+  readWorkflowStream,
+  WorkflowErrorBody,
+  WorkflowErrorCode,
+  WorkflowStep,
+  WorkflowStreamErrorCode,
+  WorkflowUsage,
+} from "@/lib/workflow-stream";
+
+export interface DecomposeOptions {
+  // 为空时使用服务端默认模型
+  model?: ModelConfig | null;
+  // 为空时使用服务端默认模板
+  template?: PromptTemplateData | null;
+  // 环节名称使用的语言，为空时沿用模板的语言
+  language?: Locale;
+  // 不使用服务端缓存的结果，新结果仍会写入缓存
+  bypassCache?: boolean;
+  onUsage?: (usage: WorkflowUsage) => void;
+  // 服务端校验未通过并重新生成时调用，此前收到的环节应当丢弃
+  onRetry?: (attempt: number, violations: string[]) => void;
+  onValidation?: (checks: DecompositionCheck[]) => void;
+  // 中止时服务端也会停止调用模型，已经收到的环节由调用方决定去留
+  signal?: AbortSignal;
+}
+
+// 通过 AbortController 取消的请求
+export function isAbortError(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { name?: unknown }).name === "AbortError"
+  );
+}
+
+// 服务端在开始生成之前拒绝的请求（校验失败、超出上限或被限流）
+export class RejectedRequestError extends Error {
+  readonly code: WorkflowErrorCode;
+  readonly details: string[];
+  readonly retryAfter?: number;
+
+  constructor(
+    readonly status: number,
+    body: WorkflowErrorBody
+  ) {
+    super(body.error);
+    this.name = "RejectedRequestError";
+    this.code = body.code;
+    this.details = body.details ?? [];
+    this.retryAfter = body.retryAfter;
+  }
+
+  toBody(): WorkflowErrorBody {
+    return {
+      error: this.message,
+      code: this.code,
+      details: this.details,
+      retryAfter: this.retryAfter,
+    };
+  }
+}
+
+// 生成开始后服务端在流中报告的错误
+export class GenerationError extends Error {
+  constructor(
+    readonly code: WorkflowStreamErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "GenerationError";
+  }
+}
+
+// 转换为画布上方错误提示的内容，生成失败时附带原始错误信息
+export function toRequestError(error: unknown): WorkflowErrorBody {
+  if (error instanceof RejectedRequestError) return error.toBody();
+  if (error instanceof GenerationError && error.code === "empty_result") {
+    return { error: error.message, code: error.code };
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return { error: message, code: "generation_failed", details: [message] };
+}
+
+async function readErrorBody(
+  response: Response
+): Promise<WorkflowErrorBody | null> {
+  const body = await response.json().catch(() => null);
+  return body && typeof body.error === "string" && body.code ? body : null;
+}
 
 export async function decomposeWorkflow(
   text: string,
   flowData: FlowData | null = null,
   nodeId: string | null = null,
-  onPartialResult?: (part: { text: string; ratio: number }) => void
+  onPartialResult?: (part: WorkflowStep) => void,
+  options: DecomposeOptions = {}
 ) {
   try {
     const response = await fetch("/api/workflow", {
@@ -16,88 +114,60 @@ export async function decomposeWorkflow(
         text,
         flowData,
         nodeId,
+        model: options.model ?? undefined,
+        template: options.template
+          ? toPromptTemplateRequest(options.template)
+          : undefined,
+        language: options.language,
+        bypassCache: options.bypassCache,
       }),
+      signal: options.signal,
     });
 
-    console.log("Response received:", response.status, response.headers);
-
     if (!response.ok) {
+      const body = await readErrorBody(response);
+      if (body) throw new RejectedRequestError(response.status, body);
       throw new Error(`HTTP error! status: ${response.status}`);
     }
 
-    const reader = response.body?.getReader();
-    if (!reader) {
+    if (!response.body) {
       throw new Error("No response body");
     }
 
-    console.log("Starting to read stream...");
+    let results: WorkflowStep[] = [];
+    let isDone = false;
 
-    let results: { text: string; ratio: number }[] = [];
-    const decoder = new TextDecoder();
-    let bracketCount = 0;
-    let inObject = false;
-    let currentObject = "";
-
-    while (true) {
-      const { done, value } = await reader.read();
-
-      if (done) {
-        console.log("Stream complete");
-        break;
+    await readWorkflowStream(response.body, (event) => {
+      switch (event.type) {
+        case "step":
+          results.push(event.step);
+          onPartialResult?.(event.step);
+          break;
+        case "usage":
+          options.onUsage?.(event.usage);
+          break;
+        case "retry":
+          results = [];
+          options.onRetry?.(event.attempt, event.violations);
+          break;
+        case "validation":
+          options.onValidation?.(event.checks);
+          break;
+        case "error":
+          throw new GenerationError(event.code, event.message);
+        case "done":
+          isDone = true;
+          break;
       }
+    });
 
-      const chunk = decoder.decode(value);
-      console.log("chunk", chunk);
-      for (const char of chunk) {
-        // 开始解析对象
-        if (char === "{") {
-          inObject = true;
-          currentObject = "{";
-          continue;
-        }
-
-        // 在对象内收集字符
-        if (inObject) {
-          if (char !== "{") {
-            currentObject += char;
-          }
-
-          // 对象结束
-          if (char === "}") {
-            inObject = false;
-            try {
-              const parsed = JSON.parse(currentObject);
-              if (
-                parsed.text &&
-                typeof parsed.text === "string" &&
-                parsed.ratio &&
-                typeof parsed.ratio === "number"
-              ) {
-                results.push(parsed);
-                onPartialResult?.(parsed);
-              }
-            } catch {
-              // 忽略解析错误
-            }
-            currentObject = "";
-          }
-        }
-
-        // 跟踪数组括号
-        if (char === "[") bracketCount++;
-        if (char === "]") {
-          bracketCount--;
-          if (bracketCount === 0) {
-            // 数组结束，退出循环
-            break;
-          }
-        }
-      }
+    if (!isDone) {
+      throw new Error("Stream ended unexpectedly");
     }
 
     // 规范化最终结果的比例
     const totalRatio = results.reduce((sum, item) => sum + item.ratio, 0);
-    if (Math.abs(totalRatio - 1) > 0.01) {
+    if (totalRatio > 0 && Math.abs(totalRatio - 1) > 0.01) {
       results = results.map((item) => ({
         ...item,
         ratio: item.ratio / totalRatio,
@@ -106,7 +176,44 @@ export async function decomposeWorkflow(
 
     return results;
   } catch (error) {
+    // 取消、被拒绝与服务端报告的错误原样抛出，以便调用方区分
+    if (
+      isAbortError(error) ||
+      error instanceof RejectedRequestError ||
+      error instanceof GenerationError
+    ) {
+      throw error;
+    }
     console.error("Error in decomposeWorkflow:", error);
-    throw new Error("Failed to decompose workflow");
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to decompose workflow: ${message}`);
+  }
+}
+
+// 评估整棵树（nodeId 为空时）或某个子树中各环节的 AI 提效潜力
+export async function assessAutomation(
+  flowData: FlowData,
+  nodeId: string | null = null,
+  options: { model?: ModelConfig | null } = {}
+): Promise<AutomationAssessments> {
+  const response = await fetch("/api/automation", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      flowData,
+      nodeId,
+      model: options.model ?? undefined,
+    }),
+  });
+
+  if (!response.ok) {
+    const body = await readErrorBody(response.clone());
+    if (body) throw new RejectedRequestError(response.status, body);
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.error || `HTTP error! status: ${response.status}`);
   }
+  const body = await response.json();
+  return body.assessments;
 }
@@ -0,0 +1,326 @@
+// 拆解工作流程用的提示词模板，以数据形式保存，渲染为 LangChain 的 f-string 模板
+
+import {
+  DEFAULT_LOCALE,
+  Locale,
+  MessageKey,
+  translate,
+  TranslateParams,
+} from "@/lib/i18n";
+
+export interface PromptExample {
+  // 被拆解的工作
+  input: string;
+  steps: string[];
+  // 正例还是反例
+  correct: boolean;
+  reason: string;
+}
+
+export interface PromptTemplateData {
+  id: string;
+  name: string;
+  description?: string;
+  role: string;
+  // 任务说明，需要包含 {input} 与 {context}
+  task: string;
+  rules: string[];
+  examples: PromptExample[];
+  // 输出格式说明，需要包含 {format_instructions}
+  outputFormat: string;
+  // 内置模板不可修改，只能复制后编辑
+  builtIn?: boolean;
+  // 内置模板的名称与说明按界面语言显示
+  nameKey?: MessageKey;
+  descriptionKey?: MessageKey;
+}
+
+// 渲染时由服务端填入的占位符
+export const PROMPT_PLACEHOLDERS = [
+  "input",
+  "context",
+  "format_instructions",
+] as const;
+
+export type PromptPlaceholder = (typeof PROMPT_PLACEHOLDERS)[number];
+
+const DEFAULT_TASK = `请拆解以下工作内容："{input}"
+
+当前工作流程树（▶ 为待拆解节点）：
+{context}`;
+
+const DEFAULT_OUTPUT_FORMAT = "{format_instructions}";
+
+// 各领域共用的基本规则
+const BASE_RULES = [
+  "每个环节包含名称和时间比例（总和为1）",
+  "只包含当前工种的具体工作",
+  "环节之间保持顺序连贯性",
+  "拆解结果不得与工作流程树中已有环节重复",
+  "拆解必须是当前工作的直接子任务",
+  "最后一个子任务应自然衔接下一环节",
+];
+
+export const DEFAULT_PROMPT_TEMPLATE_ID = "general";
+
+type BuiltInPromptTemplateId =
+  typeof DEFAULT_PROMPT_TEMPLATE_ID | "sales" | "support" | "engineering";
+
+// name 与 description 使用默认语言，供服务端与评测脚本使用
+function builtInTemplateText(id: BuiltInPromptTemplateId) {
+  const nameKey = `builtInTemplate.${id}.name` as const;
+  const descriptionKey = `builtInTemplate.${id}.description` as const;
+  return {
+    id,
+    name: translate(DEFAULT_LOCALE, nameKey),
+    description: translate(DEFAULT_LOCALE, descriptionKey),
+    nameKey,
+    descriptionKey,
+  };
+}
+
+export const BUILT_IN_PROMPT_TEMPLATES: PromptTemplateData[] = [
+  {
+    ...builtInTemplateText(DEFAULT_PROMPT_TEMPLATE_ID),
+    role: "工作流程分析专家，擅长将复杂工作流程拆解为工作流程树",
+    task: DEFAULT_TASK,
+    rules: BASE_RULES,
+    examples: [
+      {
+        input: "前端开发",
+        steps: ["写代码", "开会", "测试"],
+        correct: false,
+        reason: "任务笼统且包含其他工种（测试）职责",
+      },
+      {
+        input: "前端开发",
+        steps: ["组件设计", "交互实现", "性能优化"],
+        correct: true,
+        reason: "都是前端工程师的具体工作，且有序连贯",
+      },
+    ],
+    outputFormat: DEFAULT_OUTPUT_FORMAT,
+    builtIn: true,
+  },
+  {
+    ...builtInTemplateText("sales"),
+    role: "销售运营专家，熟悉 B2B 与 B2C 销售漏斗及客户生命周期管理",
+    task: DEFAULT_TASK,
+    rules: [
+      ...BASE_RULES,
+      "按照线索获取、需求挖掘、方案报价、谈判成交、回款维护的漏斗顺序组织环节",
+      "环节名称使用动宾结构，体现销售人员自己的动作而非客户的行为",
+    ],
+    examples: [
+      {
+        input: "大客户销售",
+        steps: ["打电话", "拜访", "签合同", "做发票"],
+        correct: false,
+        reason: "缺少需求分析与方案环节，开票属于财务职责",
+      },
+      {
+        input: "大客户销售",
+        steps: ["筛选目标客户", "挖掘采购需求", "制定解决方案", "商务谈判"],
+        correct: true,
+        reason: "覆盖从获客到成交的完整漏斗，且都是销售自己的工作",
+      },
+    ],
+    outputFormat: DEFAULT_OUTPUT_FORMAT,
+    builtIn: true,
+  },
+  {
+    ...builtInTemplateText("support"),
+    role: "客户服务运营专家，熟悉工单流转、服务等级协议与知识库建设",
+    task: DEFAULT_TASK,
+    rules: [
+      ...BASE_RULES,
+      "按照受理分类、问题排查、解决答复、升级转交、回访归档的工单生命周期组织环节",
+      "区分一线支持与研发、产品等其他团队的职责，只保留支持人员的工作",
+    ],
+    examples: [
+      {
+        input: "处理客户投诉",
+        steps: ["回复客户", "修复 Bug", "发布版本"],
+        correct: false,
+        reason: "修复与发布是研发职责，且缺少问题定位与回访",
+      },
+      {
+        input: "处理客户投诉",
+        steps: ["安抚并记录诉求", "定位问题原因", "给出处理方案", "回访确认"],
+        correct: true,
+        reason: "按工单处理顺序展开，都是支持人员可以独立完成的工作",
+      },
+    ],
+    outputFormat: DEFAULT_OUTPUT_FORMAT,
+    builtIn: true,
+  },
+  {
+    ...builtInTemplateText("engineering"),
+    role: "软件研发效能专家，熟悉需求分析、编码、评审、测试与发布流程",
+    task: DEFAULT_TASK,
+    rules: [
+      ...BASE_RULES,
+      "按照需求理解、技术设计、编码实现、自测评审、上线验证的交付顺序组织环节",
+      "环节应具体到可以单独估算工时，避免“开发”“处理问题”等笼统说法",
+    ],
+    examples: [
+      {
+        input: "后端接口开发",
+        steps: ["开发", "联调", "其他"],
+        correct: false,
+        reason: "环节笼统，无法估算工时，“其他”没有实际含义",
+      },
+      {
+        input: "后端接口开发",
+        steps: ["梳理接口需求", "设计数据模型", "实现业务逻辑", "编写单元测试"],
+        correct: true,
+        reason: "按交付顺序展开，每个环节都能单独估算",
+      },
+    ],
+    outputFormat: DEFAULT_OUTPUT_FORMAT,
+    builtIn: true,
+  },
+];
+
+export function getBuiltInPromptTemplate(
+  id: string
+): PromptTemplateData | null {
+  return (
+    BUILT_IN_PROMPT_TEMPLATES.find((template) => template.id === id) ?? null
+  );
+}
+
+export function getTemplateName(
+  template: PromptTemplateData,
+  locale: Locale
+): string {
+  return template.nameKey ? translate(locale, template.nameKey) : template.name;
+}
+
+export function getTemplateDescription(
+  template: PromptTemplateData,
+  locale: Locale
+): string | undefined {
+  return template.descriptionKey
+    ? translate(locale, template.descriptionKey)
+    : template.description;
+}
+
+function renderExample(example: PromptExample): string {
+  const steps = example.steps.map((step) => `"${step}"`).join("、");
+  return `  ${example.correct ? "正确" : "错误"}："${example.input}" -> ${steps}
+  原因：${example.reason}`;
+}
+
+// 缩进多行文本，使其与各段落标签对齐
+function indent(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line ? `  ${line}` : line))
+    .join("\n");
+}
+
+// 渲染为完整的提示词模板，占位符留给服务端填入
+export function renderPromptTemplate(template: PromptTemplateData): string {
+  const rules = template.rules
+    .map((rule) => rule.trim())
+    .filter(Boolean)
+    .map((rule, index) => `  ${index + 1}. ${rule}`)
+    .join("\n");
+  const sections = [
+    `<role>\n${indent(template.role.trim())}\n</role>`,
+    `<task>\n${indent(template.task.trim())}\n</task>`,
+    `<rules>\n${rules}\n</rules>`,
+  ];
+  if (template.examples.length > 0) {
+    sections.push(
+      `<example>\n${template.examples.map(renderExample).join("\n\n")}\n</example>`
+    );
+  }
+  sections.push(
+    `<output_format>\n${indent(template.outputFormat.trim())}\n</output_format>`
+  );
+  return `\n${sections.join("\n\n")}\n`;
+}
+
+// 找出文本中的占位符，{{ 与 }} 是转义后的花括号
+function scanPlaceholders(text: string) {
+  const names: string[] = [];
+  const rest = text.replace(/\{\{|\}\}|\{([^{}]*)\}/g, (match, name) => {
+    if (name !== undefined) names.push(name.trim());
+    return "";
+  });
+  return { names, hasStrayBraces: /[{}]/.test(rest) };
+}
+
+function isPromptPlaceholder(name: string): name is PromptPlaceholder {
+  return (PROMPT_PLACEHOLDERS as readonly string[]).includes(name);
+}
+
+// 模板中的一个问题，key 与 params 用于按界面语言显示
+export interface PromptTemplateIssue {
+  key: MessageKey;
+  params?: TranslateParams;
+}
+
+export function describeTemplateIssue(
+  issue: PromptTemplateIssue,
+  locale: Locale
+): string {
+  return translate(locale, issue.key, issue.params);
+}
+
+// 校验模板内容，返回所有问题，为空表示可以使用
+export function validatePromptTemplate(
+  template: PromptTemplateData
+): PromptTemplateIssue[] {
+  const errors: PromptTemplateIssue[] = [];
+  if (!template.name.trim()) errors.push({ key: "templateError.name" });
+  if (!template.role.trim()) errors.push({ key: "templateError.role" });
+  if (!template.task.trim()) errors.push({ key: "templateError.task" });
+  if (!template.rules.some((rule) => rule.trim())) {
+    errors.push({ key: "templateError.rules" });
+  }
+  if (!template.outputFormat.trim()) {
+    errors.push({ key: "templateError.outputFormat" });
+  }
+  template.examples.forEach((example, index) => {
+    if (!example.input.trim() || example.steps.length === 0) {
+      errors.push({
+        key: "templateError.example",
+        params: { index: index + 1 },
+      });
+    }
+  });
+
+  const { names, hasStrayBraces } = scanPlaceholders(
+    renderPromptTemplate(template)
+  );
+  PROMPT_PLACEHOLDERS.forEach((placeholder) => {
+    if (!names.includes(placeholder)) {
+      errors.push({
+        key: "templateError.missingPlaceholder",
+        params: { placeholder },
+      });
+    }
+  });
+  Array.from(new Set(names))
+    .filter((name) => !isPromptPlaceholder(name))
+    .forEach((name) =>
+      errors.push({
+        key: "templateError.unknownPlaceholder",
+        params: { placeholder: name },
+      })
+    );
+  if (hasStrayBraces) errors.push({ key: "templateError.strayBraces" });
+  return errors;
+}
+
+// 发送给服务端的模板：内置模板只传 id，自定义模板传完整内容
+export type PromptTemplateRequest = string | PromptTemplateData;
+
+export function toPromptTemplateRequest(
+  template: PromptTemplateData
+): PromptTemplateRequest {
+  return template.builtIn ? template.id : template;
+}
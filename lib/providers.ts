@@ -0,0 +1,34 @@
+// 模型提供方的公共定义，前后端共用（不依赖任何 LangChain 模块）
+
+export type ProviderId = "openai" | "ollama" | "mock";
+
+export const PROVIDER_IDS: ProviderId[] = ["openai", "ollama", "mock"];
+
+export interface ModelConfig {
+  provider: ProviderId;
+  model: string;
+  temperature: number;
+  baseURL?: string;
+}
+
+export interface ProviderInfo {
+  id: ProviderId;
+  // 提供方的英文名称，界面上显示翻译后的 provider.<id>
+  label: string;
+  models: string[];
+  defaultModel: string;
+  baseURL?: string;
+}
+
+// 返回给浏览器的提供方信息，不包含服务端的接口地址
+export type PublicProviderInfo = Omit<ProviderInfo, "baseURL">;
+
+// /api/models 的返回结构
+export interface ModelsResponse {
+  providers: PublicProviderInfo[];
+  defaultConfig: Omit<ModelConfig, "baseURL">;
+}
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return PROVIDER_IDS.includes(value as ProviderId);
+}
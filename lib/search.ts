@@ -0,0 +1,110 @@
+import { FlowData } from "@/lib/stores/flow-store";
+import { walkTree } from "@/lib/tree";
+
+export interface SearchFilters {
+  minDepth?: number;
+  maxDepth?: number;
+  leavesOnly: boolean;
+  // 占总用时的最小比例（0-1）
+  minShare?: number;
+}
+
+export const EMPTY_SEARCH_FILTERS: SearchFilters = { leavesOnly: false };
+
+export interface SearchResult {
+  node: FlowData;
+  path: string[];
+  shareOfRoot: number;
+  score: number;
+}
+
+// 参与搜索的文本及其权重，名称之外的字段匹配时得分较低
+const SEARCH_FIELDS: { weight: number; read: (node: FlowData) => string[] }[] =
+  [
+    { weight: 1, read: (node) => [node.label] },
+    {
+      weight: 0.5,
+      read: (node) =>
+        node.automation
+          ? [node.automation.approach, ...node.automation.tools]
+          : [],
+    },
+  ];
+
+// 模糊匹配：查询中的字符按顺序出现在文本中即视为命中，
+// 连续命中、出现在开头或完整包含查询时得分更高；未命中返回 null
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase().replace(/\s+/g, "");
+  const haystack = text.toLowerCase();
+  if (!needle) return 0;
+
+  const index = haystack.indexOf(needle);
+  if (index !== -1) {
+    return 100 + (index === 0 ? 20 : 0) - haystack.length * 0.1;
+  }
+
+  let score = 0;
+  let streak = 0;
+  let position = 0;
+  for (const char of needle) {
+    const found = haystack.indexOf(char, position);
+    if (found === -1) return null;
+    streak = found === position ? streak + 1 : 1;
+    score += streak * 2 - (found - position) * 0.5;
+    position = found + 1;
+  }
+  return score - haystack.length * 0.1;
+}
+
+function matchesFilters(
+  result: Omit<SearchResult, "score">,
+  filters: SearchFilters
+): boolean {
+  const { node, shareOfRoot } = result;
+  if (filters.minDepth !== undefined && node.depth < filters.minDepth) {
+    return false;
+  }
+  if (filters.maxDepth !== undefined && node.depth > filters.maxDepth) {
+    return false;
+  }
+  if (filters.leavesOnly && node.children.length > 0) return false;
+  if (filters.minShare !== undefined && shareOfRoot < filters.minShare) {
+    return false;
+  }
+  return true;
+}
+
+export function hasActiveFilters(filters: SearchFilters): boolean {
+  return (
+    filters.minDepth !== undefined ||
+    filters.maxDepth !== undefined ||
+    filters.leavesOnly ||
+    filters.minShare !== undefined
+  );
+}
+
+// 在整棵树中搜索，按匹配程度排序，得分相同时保持树中的顺序
+export function searchTree(
+  root: FlowData,
+  query: string,
+  filters: SearchFilters
+): SearchResult[] {
+  const results: SearchResult[] = [];
+  walkTree(root, ({ node, path, shareOfRoot }) => {
+    if (!matchesFilters({ node, path, shareOfRoot }, filters)) return;
+
+    let best: number | null = query.trim() ? null : 0;
+    for (const field of SEARCH_FIELDS) {
+      for (const text of field.read(node)) {
+        const score = fuzzyScore(query, text);
+        if (score !== null && (best === null || score * field.weight > best)) {
+          best = score * field.weight;
+        }
+      }
+    }
+    if (best !== null) results.push({ node, path, shareOfRoot, score: best });
+  });
+
+  // Array.prototype.sort 是稳定排序
+  return results.sort((a, b) => b.score - a.score);
+}
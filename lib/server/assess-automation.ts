@@ -0,0 +1,157 @@
+import { StructuredOutputParser } from "@langchain/core/output_parsers";
+import { PromptTemplate } from "@langchain/core/prompts";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { z } from "zod";
+import { ModelConfig } from "@/lib/providers";
+import { FlowData } from "@/lib/stores/flow-store";
+import { AutomationAssessment, AutomationAssessments } from "@/lib/automation";
+import { findNode } from "@/lib/tree";
+import { supportsStructuredOutput } from "@/lib/server/model-registry";
+import { createStepArrayParser } from "@/lib/server/step-array-parser";
+
+export const assessmentSchema = z.object({
+  key: z.string().describe("环节编号，例如 n3"),
+  score: z.number().describe("可由 AI 接管的程度（0-1之间的小数）"),
+  approach: z.string().describe("建议的 AI 提效方式，一句话"),
+  tools: z.array(z.string()).describe("建议使用的 AI 工具或技术"),
+  timeReduction: z
+    .number()
+    .describe("采用建议后预计节省的该环节用时比例（0-1之间的小数）"),
+});
+
+type RawAssessment = z.infer<typeof assessmentSchema>;
+
+const assessmentParser = StructuredOutputParser.fromZodSchema(
+  z.array(assessmentSchema)
+);
+
+// 工具调用要求顶层是对象
+const structuredAssessmentSchema = z.object({
+  assessments: z.array(assessmentSchema).describe("每个带编号环节的评估"),
+});
+
+const PROMPT_TEMPLATE = `
+<role>
+  AI 提效顾问，熟悉各类 AI 工具在具体工作中的落地方式
+</role>
+
+<task>
+  评估以下工作流程树中每个带编号的环节能在多大程度上由 AI 接管：
+{tree}
+</task>
+
+<rules>
+  1. 每个带编号的环节都要给出评估，编号原样返回
+  2. score 表示 AI 能接管的程度，0 为完全依赖人工，1 为可以完全交给 AI
+  3. timeReduction 是采用建议后该环节预计节省的用时比例，应当保守估计
+  4. 有子环节的环节按其整体进行评估
+  5. 建议必须具体到工具或做法，不要泛泛而谈
+</rules>
+
+<output_format>
+  {format_instructions}
+</output_format>
+`;
+
+const prompt = PromptTemplate.fromTemplate(PROMPT_TEMPLATE);
+
+// 列出整棵树作为上下文，只给待评估子树中的环节编号
+function getNumberedTree(
+  root: FlowData,
+  targetId: string
+): { tree: string; keys: Map<string, string> } {
+  const keys = new Map<string, string>();
+  const lines: string[] = [];
+  const walk = (node: FlowData, indent: string, inTarget: boolean) => {
+    const isTarget = inTarget || node.id === targetId;
+    let prefix = "";
+    if (isTarget) {
+      const key = `n${keys.size + 1}`;
+      keys.set(key, node.id);
+      prefix = `[${key}] `;
+    }
+    lines.push(
+      `${indent}${prefix}${node.label}（占上级 ${Math.round(
+        node.ratio * 100
+      )}%）`
+    );
+    node.children.forEach((child) => walk(child, indent + "  ", isTarget));
+  };
+  walk(root, "  ", false);
+  return { tree: lines.join("\n"), keys };
+}
+
+// 模型可能返回百分数，统一换算为 0-1
+function toFraction(value: number): number {
+  const fraction = value > 1 && value <= 100 ? value / 100 : value;
+  return Math.min(1, Math.max(0, fraction));
+}
+
+function toAssessment(raw: RawAssessment): AutomationAssessment {
+  return {
+    score: toFraction(raw.score),
+    approach: raw.approach.trim(),
+    tools: raw.tools.map((tool) => tool.trim()).filter(Boolean),
+    timeReduction: toFraction(raw.timeReduction),
+  };
+}
+
+async function invokeStructured(
+  model: BaseChatModel,
+  input: string
+): Promise<RawAssessment[]> {
+  const structuredModel = model.withStructuredOutput(
+    structuredAssessmentSchema,
+    { name: "automation_assessments" }
+  );
+  const result = await structuredModel.invoke([["system", input]]);
+  return result.assessments;
+}
+
+async function invokeText(
+  model: BaseChatModel,
+  input: string
+): Promise<RawAssessment[]> {
+  const items: RawAssessment[] = [];
+  const parser = createStepArrayParser(assessmentSchema, {
+    onStep: (item) => items.push(item),
+    onInvalid: (raw) => console.warn("Skipping invalid assessment:", raw),
+  });
+  const message = await model.invoke([["system", input]]);
+  if (typeof message.content === "string") parser.push(message.content);
+  return items;
+}
+
+// 评估指定子树（默认整棵树）中每个环节的 AI 提效潜力
+export async function assessAutomation(
+  model: BaseChatModel,
+  config: ModelConfig,
+  root: FlowData,
+  nodeId: string | null
+): Promise<AutomationAssessments> {
+  const target = nodeId ? findNode(root, nodeId) : root;
+  if (!target) throw new Error("找不到要评估的环节");
+
+  const { tree, keys } = getNumberedTree(root, target.id);
+  const input = await prompt.format({
+    tree,
+    format_instructions: assessmentParser.getFormatInstructions(),
+  });
+
+  let items: RawAssessment[] = [];
+  if (supportsStructuredOutput(config)) {
+    try {
+      items = await invokeStructured(model, input);
+    } catch (error) {
+      console.warn("Structured output failed, falling back:", error);
+    }
+  }
+  if (items.length === 0) items = await invokeText(model, input);
+
+  const assessments: AutomationAssessments = {};
+  for (const item of items) {
+    const id = keys.get(item.key.trim().replace(/^\[|\]$/g, ""));
+    if (id) assessments[id] = toAssessment(item);
+  }
+  return assessments;
+}
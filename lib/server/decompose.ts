@@ -0,0 +1,305 @@
+import { StructuredOutputParser } from "@langchain/core/output_parsers";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { LLMResult } from "@langchain/core/outputs";
+import type { AIMessage } from "@langchain/core/messages";
+import { z } from "zod";
+import { ModelConfig } from "@/lib/providers";
+import { FlowData } from "@/lib/stores/flow-store";
+import { DEFAULT_LOCALE, Locale } from "@/lib/i18n";
+import { PromptTemplateData } from "@/lib/prompt-templates";
+import {
+  DecompositionCheck,
+  describeCheck,
+  WorkflowStep,
+  WorkflowUsage,
+} from "@/lib/workflow-stream";
+import { supportsStructuredOutput } from "@/lib/server/model-registry";
+import { createStepArrayParser } from "@/lib/server/step-array-parser";
+import { validateDecomposition } from "@/lib/server/validate-decomposition";
+import {
+  createPromptTemplate,
+  withOutputLanguage,
+} from "@/lib/server/prompt-templates";
+
+// 定义输出结构
+export const stepSchema = z.object({
+  text: z.string().min(1).describe("工作环节名称"),
+  ratio: z
+    .number()
+    .min(0)
+    .max(1)
+    .describe("这个工作环节占总用时的比例（0-1之间的小数）"),
+});
+
+export const workflowParser = StructuredOutputParser.fromZodSchema(
+  z.array(stepSchema)
+);
+
+// 工具调用要求顶层是对象
+const structuredWorkflowSchema = z.object({
+  steps: z.array(stepSchema).describe("按顺序排列的工作环节"),
+});
+
+// 提示词中的工作流程树，▶ 标记当前需要拆解的节点
+export function getTreeString(
+  flowData: FlowData,
+  currentNodeId: string,
+  indent = ""
+): string {
+  let result = "";
+  const isCurrentNode = flowData.id === currentNodeId;
+  const prefix = isCurrentNode ? "▶ " : "  ";
+
+  // 添加当前节点，不显示百分比
+  result += `${indent}${prefix}${flowData.label}\n`;
+
+  // 递归添加子节点
+  if (flowData.children.length > 0) {
+    flowData.children.forEach((child) => {
+      result += getTreeString(child, currentNodeId, indent + "  ");
+    });
+  }
+
+  return result;
+}
+
+// 提示词中的上下文，拆解根节点时没有上层工作流程
+export function getDecompositionContext(
+  flowData: FlowData | null,
+  nodeId: string | null
+): string {
+  if (!flowData || !nodeId) return "无上层工作流程";
+  return (
+    "当前完整工作流程树（▶ 表示当前需要拆解的节点）：\n" +
+    getTreeString(flowData, nodeId)
+  );
+}
+
+// 渲染完整的拆解提示词，/api/workflow 与评测脚本共用
+export async function buildDecompositionPrompt(
+  template: PromptTemplateData,
+  text: string,
+  context: string,
+  language: Locale | null
+): Promise<string> {
+  const prompt = await createPromptTemplate(template).format({
+    input: text,
+    context,
+    format_instructions: workflowParser.getFormatInstructions(),
+  });
+  return withOutputLanguage(prompt, language);
+}
+
+export interface StepHandlers {
+  onStep: (step: WorkflowStep) => void;
+  onUsage?: (usage: WorkflowUsage) => void;
+}
+
+// 从 LLM 回调中读取 token 用量
+function readUsage(output: LLMResult): WorkflowUsage | null {
+  const message = (output.generations[0]?.[0] as { message?: AIMessage })
+    ?.message;
+  if (message?.usage_metadata) {
+    return {
+      inputTokens: message.usage_metadata.input_tokens,
+      outputTokens: message.usage_metadata.output_tokens,
+      totalTokens: message.usage_metadata.total_tokens,
+    };
+  }
+  const tokenUsage = output.llmOutput?.tokenUsage;
+  if (tokenUsage?.totalTokens) {
+    return {
+      inputTokens: tokenUsage.promptTokens ?? 0,
+      outputTokens: tokenUsage.completionTokens ?? 0,
+      totalTokens: tokenUsage.totalTokens,
+    };
+  }
+  return null;
+}
+
+// 通过工具调用获取结构化结果，流式返回的是逐渐变完整的对象
+async function streamStructuredSteps(
+  model: BaseChatModel,
+  prompt: string,
+  handlers: StepHandlers,
+  signal?: AbortSignal
+) {
+  const structuredModel = model.withStructuredOutput(structuredWorkflowSchema, {
+    name: "workflow_steps",
+  });
+  const stream = await structuredModel.stream([["system", prompt]], {
+    signal,
+    callbacks: [
+      {
+        handleLLMEnd: (output) => {
+          const usage = readUsage(output);
+          if (usage) handlers.onUsage?.(usage);
+        },
+      },
+    ],
+  });
+
+  let emitted = 0;
+  let latest: unknown[] = [];
+  const emitUntil = (end: number) => {
+    while (emitted < end) {
+      const result = stepSchema.safeParse(latest[emitted]);
+      if (result.success) {
+        handlers.onStep(result.data);
+      } else {
+        console.warn("Skipping invalid step:", latest[emitted]);
+      }
+      emitted++;
+    }
+  };
+
+  for await (const partial of stream) {
+    latest = Array.isArray(partial?.steps) ? partial.steps : [];
+    // 最后一个元素可能还在生成中，其余的都已经完整
+    emitUntil(latest.length - 1);
+  }
+  emitUntil(latest.length);
+}
+
+// 解析模型的文本输出，无论是否带有代码块标记
+async function streamTextSteps(
+  model: BaseChatModel,
+  prompt: string,
+  handlers: StepHandlers,
+  signal?: AbortSignal
+) {
+  const parser = createStepArrayParser(stepSchema, {
+    onStep: handlers.onStep,
+    onInvalid: (raw) => console.warn("Skipping invalid step:", raw),
+  });
+  const usage: WorkflowUsage = {
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+  };
+
+  const modelStream = await model.stream([["system", prompt]], { signal });
+  for await (const chunk of modelStream) {
+    if (chunk.usage_metadata) {
+      usage.inputTokens += chunk.usage_metadata.input_tokens;
+      usage.outputTokens += chunk.usage_metadata.output_tokens;
+      usage.totalTokens += chunk.usage_metadata.total_tokens;
+    }
+    // 数组读完后继续读取，以便拿到最后的用量信息
+    if (!parser.isFinished() && typeof chunk.content === "string") {
+      parser.push(chunk.content);
+    }
+  }
+
+  if (usage.totalTokens > 0) handlers.onUsage?.(usage);
+}
+
+// 流式获取拆解结果：优先使用结构化输出，不支持或失败时回退到文本解析。
+// signal 中止时停止读取模型输出并抛出错误
+export async function streamWorkflowSteps(
+  model: BaseChatModel,
+  config: ModelConfig,
+  prompt: string,
+  handlers: StepHandlers,
+  signal?: AbortSignal
+) {
+  if (supportsStructuredOutput(config)) {
+    let emitted = 0;
+    try {
+      await streamStructuredSteps(
+        model,
+        prompt,
+        {
+          ...handlers,
+          onStep: (step) => {
+            emitted++;
+            handlers.onStep(step);
+          },
+        },
+        signal
+      );
+      if (emitted > 0) return;
+      console.warn("Structured output returned no steps, falling back");
+    } catch (error) {
+      // 已经发出的环节无法撤回，只能报错；被中止时也不再回退
+      if (emitted > 0 || signal?.aborted) throw error;
+      console.warn("Structured output failed, falling back:", error);
+    }
+  }
+
+  await streamTextSteps(model, prompt, handlers, signal);
+}
+
+// 首次生成加上最多两次重试
+export const MAX_ATTEMPTS = 3;
+
+export interface DecompositionRequest {
+  model: BaseChatModel;
+  config: ModelConfig;
+  prompt: string;
+  // 用于查重的完整工作流程树
+  flowData: FlowData | null;
+  label: string;
+  maxAttempts?: number;
+  // 客户端断开或取消时中止
+  signal?: AbortSignal;
+}
+
+export interface DecompositionHandlers extends StepHandlers {
+  onRetry?: (attempt: number, violations: string[]) => void;
+  onValidation?: (checks: DecompositionCheck[]) => void;
+}
+
+// 把上一轮未通过的校验项追加到提示词中
+function withViolations(prompt: string, violations: string[]): string {
+  return `${prompt}
+<previous_attempt_violations>
+  上一次的拆解结果不符合规则，请修正以下问题后重新输出：
+${violations.map((violation) => `  - ${violation}`).join("\n")}
+</previous_attempt_violations>
+`;
+}
+
+// 生成并校验拆解结果，未通过时带上具体问题重新生成
+export async function runDecomposition(
+  request: DecompositionRequest,
+  handlers: DecompositionHandlers
+): Promise<WorkflowStep[]> {
+  const maxAttempts = request.maxAttempts ?? MAX_ATTEMPTS;
+  let prompt = request.prompt;
+
+  for (let attempt = 1; ; attempt++) {
+    const steps: WorkflowStep[] = [];
+    await streamWorkflowSteps(
+      request.model,
+      request.config,
+      prompt,
+      {
+        onStep: (step) => {
+          steps.push(step);
+          handlers.onStep(step);
+        },
+        onUsage: handlers.onUsage,
+      },
+      request.signal
+    );
+
+    const checks = validateDecomposition(
+      steps,
+      request.flowData,
+      request.label
+    );
+    const violations = checks
+      .filter((check) => !check.passed)
+      // 与提示词中追加的说明一样使用中文
+      .map((check) => describeCheck(check, DEFAULT_LOCALE));
+
+    if (violations.length === 0 || attempt >= maxAttempts) {
+      handlers.onValidation?.(checks);
+      return steps;
+    }
+
+    handlers.onRetry?.(attempt, violations);
+    prompt = withViolations(request.prompt, violations);
+  }
+}
@@ -0,0 +1,155 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { ModelConfig } from "@/lib/providers";
+import { Locale } from "@/lib/i18n";
+import {
+  PromptTemplateData,
+  renderPromptTemplate,
+} from "@/lib/prompt-templates";
+import { DecompositionCheck, WorkflowStep } from "@/lib/workflow-stream";
+
+// 缓存的拆解结果：先查内存，未命中时再查可选的磁盘目录。
+// 只缓存通过全部校验的结果，命中时由调用方按原来的流式事件重放
+
+export interface CachedDecomposition {
+  steps: WorkflowStep[];
+  checks: DecompositionCheck[];
+  createdAt: number;
+}
+
+export interface DecompositionCacheOptions {
+  // 内存中最多保留的条目数，超出时淘汰最久未使用的
+  maxEntries: number;
+  // 过期时间（毫秒）
+  ttl: number;
+  // 设置后同时写入该目录，服务重启后仍然有效
+  directory?: string;
+}
+
+export interface DecompositionCacheKeyInput {
+  template: PromptTemplateData;
+  model: ModelConfig;
+  language: Locale | null;
+  label: string;
+  // 工作流程树上下文，即提示词中的 getTreeString 结果
+  context: string;
+}
+
+// 缓存条目的结构变化时递增，旧的条目不再命中
+const CACHE_FORMAT_VERSION = 2;
+
+// 全角字符、多余空白与大小写不影响缓存命中
+function normalizeText(text: string): string {
+  return text.normalize("NFKC").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+// 保留每行开头的缩进，它表示环节的层级
+function normalizeContext(context: string): string {
+  return context
+    .normalize("NFKC")
+    .split(/\r?\n/)
+    .map((line) => {
+      const indent = line.match(/^\s*/)![0];
+      return indent + normalizeText(line);
+    })
+    .filter((line) => line.trim())
+    .join("\n");
+}
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+// 模板按渲染后的内容计入，自定义模板修改后不会命中旧结果
+export function createDecompositionCacheKey(
+  input: DecompositionCacheKeyInput
+): string {
+  return sha256(
+    JSON.stringify({
+      version: CACHE_FORMAT_VERSION,
+      template: sha256(renderPromptTemplate(input.template)),
+      model: [
+        input.model.provider,
+        input.model.model,
+        input.model.temperature,
+        input.model.baseURL ?? null,
+      ],
+      language: input.language,
+      label: normalizeText(input.label),
+      context: sha256(normalizeContext(input.context)),
+    })
+  );
+}
+
+function isCachedDecomposition(value: unknown): value is CachedDecomposition {
+  const entry = value as CachedDecomposition | null;
+  return (
+    Array.isArray(entry?.steps) &&
+    Array.isArray(entry?.checks) &&
+    typeof entry?.createdAt === "number"
+  );
+}
+
+export function createDecompositionCache(options: DecompositionCacheOptions) {
+  // Map 按插入顺序遍历，读取时重新插入即可实现 LRU
+  const entries = new Map<string, CachedDecomposition>();
+
+  const isFresh = (entry: CachedDecomposition) =>
+    Date.now() - entry.createdAt < options.ttl;
+
+  const remember = (key: string, entry: CachedDecomposition) => {
+    entries.delete(key);
+    entries.set(key, entry);
+    while (entries.size > options.maxEntries) {
+      entries.delete(entries.keys().next().value!);
+    }
+  };
+
+  const filePath = (key: string) =>
+    path.join(options.directory!, `${key}.json`);
+
+  const readDisk = async (key: string) => {
+    if (!options.directory) return null;
+    try {
+      const value = JSON.parse(await readFile(filePath(key), "utf8"));
+      return isCachedDecomposition(value) ? value : null;
+    } catch {
+      // 文件不存在或已损坏都当作未命中
+      return null;
+    }
+  };
+
+  const writeDisk = async (key: string, entry: CachedDecomposition) => {
+    if (!options.directory) return;
+    try {
+      await mkdir(options.directory, { recursive: true });
+      // 先写临时文件再重命名，避免并发读取到写了一半的内容
+      const temp = `${filePath(key)}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify(entry), "utf8");
+      await rename(temp, filePath(key));
+    } catch (error) {
+      console.warn("Failed to write decomposition cache:", error);
+    }
+  };
+
+  return {
+    async get(key: string): Promise<CachedDecomposition | null> {
+      const cached = entries.get(key) ?? (await readDisk(key));
+      if (!cached || !isFresh(cached)) {
+        entries.delete(key);
+        return null;
+      }
+      remember(key, cached);
+      return cached;
+    },
+    async set(
+      key: string,
+      value: Omit<CachedDecomposition, "createdAt">
+    ): Promise<void> {
+      const entry = { ...value, createdAt: Date.now() };
+      remember(key, entry);
+      await writeDisk(key, entry);
+    },
+  };
+}
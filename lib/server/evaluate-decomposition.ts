@@ -0,0 +1,391 @@
+import { StructuredOutputParser } from "@langchain/core/output_parsers";
+import { PromptTemplate } from "@langchain/core/prompts";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { z } from "zod";
+import { FlowData } from "@/lib/stores/flow-store";
+import { ModelConfig } from "@/lib/providers";
+import { DEFAULT_LOCALE } from "@/lib/i18n";
+import { findNode, findParent, walkTree } from "@/lib/tree";
+import {
+  describeCheck,
+  WorkflowStep,
+  WorkflowUsage,
+} from "@/lib/workflow-stream";
+import {
+  createChatModel,
+  resolveModelConfig,
+} from "@/lib/server/model-registry";
+import {
+  resolveOutputLanguage,
+  resolvePromptTemplate,
+} from "@/lib/server/prompt-templates";
+import {
+  buildDecompositionPrompt,
+  getDecompositionContext,
+  runDecomposition,
+} from "@/lib/server/decompose";
+import {
+  labelSimilarity,
+  validateDecomposition,
+} from "@/lib/server/validate-decomposition";
+
+// 拆解质量评测：用与 /api/workflow 相同的流程拆解语料中的每一条，
+// 再按提示词声明的规则打分，用于比较不同的提示词模板与模型
+
+export interface EvalCase {
+  id: string;
+  // 待拆解的工作内容，有 nodeId 时应与该节点的名称一致
+  text: string;
+  // 已有的部分工作流程树，为空时从根节点开始拆解
+  flowData?: FlowData | null;
+  nodeId?: string | null;
+  language?: string;
+}
+
+// 一组待比较的配置，字段与 /api/workflow 的请求体相同
+export interface EvalVariant {
+  name: string;
+  template?: unknown;
+  model?: unknown;
+  language?: unknown;
+}
+
+export interface EvalScores {
+  ratioSum: number;
+  ratioPassed: boolean;
+  duplicatesPassed: boolean;
+  duplicates: string;
+  stepCount: number;
+  stepCountPassed: boolean;
+  // 与同级分支（含其子环节）名称的最大相似度
+  siblingOverlap: number;
+  siblingOverlapPassed: boolean;
+  // 与同级分支重叠的环节，记为 "新环节 ~ 同级环节"
+  overlapping: string[];
+}
+
+export interface JudgeVerdict {
+  // 是否包含其他岗位的职责
+  roleLeakage: boolean;
+  // 环节是否按实际的先后顺序排列
+  ordered: boolean;
+  reason: string;
+}
+
+export interface EvalResult {
+  caseId: string;
+  variant: string;
+  steps: WorkflowStep[];
+  scores: EvalScores | null;
+  // 实际生成的次数，大于 1 表示服务端校验未通过后重试过
+  attempts: number;
+  usage: WorkflowUsage;
+  durationMs: number;
+  error?: string;
+  judge?: JudgeVerdict;
+  judgeError?: string;
+}
+
+// 与同级分支的相似度超过该值即视为范围重叠，低于查重阈值，用于发现“越界”的环节
+export const SIBLING_OVERLAP_THRESHOLD = 0.5;
+
+// 待拆解节点的同级分支中所有环节的名称
+function collectSiblingLabels(
+  flowData: FlowData | null,
+  nodeId: string | null
+): string[] {
+  const parent = flowData && nodeId ? findParent(flowData, nodeId) : null;
+  if (!parent) return [];
+  const labels: string[] = [];
+  parent.children
+    .filter((child) => child.id !== nodeId)
+    .forEach((sibling) =>
+      walkTree(sibling, ({ node }) => labels.push(node.label))
+    );
+  return labels;
+}
+
+export function scoreDecomposition(
+  steps: WorkflowStep[],
+  testCase: EvalCase
+): EvalScores {
+  const flowData = testCase.flowData ?? null;
+  const nodeId = testCase.nodeId ?? null;
+  const checks = validateDecomposition(
+    steps,
+    flowData && nodeId ? flowData : null,
+    testCase.text
+  );
+  const check = (id: string) => checks.find((item) => item.id === id)!;
+
+  const siblingLabels = collectSiblingLabels(flowData, nodeId);
+  let siblingOverlap = 0;
+  const overlapping: string[] = [];
+  steps.forEach((step) => {
+    siblingLabels.forEach((label) => {
+      const similarity = labelSimilarity(step.text, label);
+      siblingOverlap = Math.max(siblingOverlap, similarity);
+      if (similarity >= SIBLING_OVERLAP_THRESHOLD) {
+        overlapping.push(`${step.text} ~ ${label}`);
+      }
+    });
+  });
+
+  return {
+    ratioSum: steps.reduce((sum, step) => sum + step.ratio, 0),
+    ratioPassed: check("ratio-sum").passed,
+    duplicatesPassed: check("duplicates").passed,
+    duplicates: describeCheck(check("duplicates"), DEFAULT_LOCALE),
+    stepCount: steps.length,
+    stepCountPassed: check("step-count").passed,
+    siblingOverlap,
+    siblingOverlapPassed: overlapping.length === 0,
+    overlapping,
+  };
+}
+
+export function isAllPassed(scores: EvalScores, judge?: JudgeVerdict): boolean {
+  return (
+    scores.ratioPassed &&
+    scores.duplicatesPassed &&
+    scores.stepCountPassed &&
+    scores.siblingOverlapPassed &&
+    (!judge || (!judge.roleLeakage && judge.ordered))
+  );
+}
+
+const judgeParser = StructuredOutputParser.fromZodSchema(
+  z.object({
+    roleLeakage: z.boolean().describe("是否包含其他岗位或工种的职责"),
+    ordered: z.boolean().describe("环节是否按实际的先后顺序排列"),
+    reason: z.string().describe("判断依据，一句话"),
+  })
+);
+
+const JUDGE_PROMPT = `
+<role>
+  工作流程评审专家，负责检查工作拆解结果的质量
+</role>
+
+<task>
+  评审以下拆解结果。
+  工作内容："{input}"
+  {context}
+  拆解结果：
+{steps}
+</task>
+
+<rules>
+  1. roleLeakage：只要有一个环节属于其他岗位或工种的职责，就为 true
+  2. ordered：环节按照实际工作中的先后顺序排列时为 true
+  3. 只评审拆解结果本身，不要补充新的环节
+</rules>
+
+<output_format>
+  {format_instructions}
+</output_format>
+`;
+
+const judgePrompt = PromptTemplate.fromTemplate(JUDGE_PROMPT);
+
+// 可选的大模型评审，检查规则难以量化的角色越界与顺序问题
+export async function judgeDecomposition(
+  model: BaseChatModel,
+  testCase: EvalCase,
+  steps: WorkflowStep[]
+): Promise<JudgeVerdict> {
+  const prompt = await judgePrompt.format({
+    input: testCase.text,
+    context: getDecompositionContext(
+      testCase.flowData ?? null,
+      testCase.nodeId ?? null
+    ),
+    steps: steps
+      .map((step, index) => `  ${index + 1}. ${step.text}`)
+      .join("\n"),
+    format_instructions: judgeParser.getFormatInstructions(),
+  });
+  const message = await model.invoke([["system", prompt]]);
+  return judgeParser.parse(
+    typeof message.content === "string" ? message.content : ""
+  );
+}
+
+export interface EvaluationOptions {
+  // 每条语料最多生成的次数，1 表示不重试，直接评测提示词的首次结果
+  maxAttempts: number;
+  judge?: { model: BaseChatModel; config: ModelConfig } | null;
+  onResult?: (result: EvalResult) => void;
+}
+
+async function evaluateCase(
+  variant: EvalVariant,
+  model: BaseChatModel,
+  config: ModelConfig,
+  testCase: EvalCase,
+  options: EvaluationOptions
+): Promise<EvalResult> {
+  const usage: WorkflowUsage = {
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+  };
+  const result: EvalResult = {
+    caseId: testCase.id,
+    variant: variant.name,
+    steps: [],
+    scores: null,
+    attempts: 1,
+    usage,
+    durationMs: 0,
+  };
+  const startedAt = Date.now();
+  const flowData = testCase.flowData ?? null;
+  const nodeId = testCase.nodeId ?? null;
+
+  try {
+    if (flowData && nodeId && !findNode(flowData, nodeId)) {
+      throw new Error(`Node ${nodeId} not found in workflow tree`);
+    }
+    const prompt = await buildDecompositionPrompt(
+      resolvePromptTemplate(variant.template),
+      testCase.text,
+      getDecompositionContext(flowData, nodeId),
+      resolveOutputLanguage(variant.language ?? testCase.language)
+    );
+    result.steps = await runDecomposition(
+      {
+        model,
+        config,
+        prompt,
+        flowData: flowData && nodeId ? flowData : null,
+        label: testCase.text,
+        maxAttempts: options.maxAttempts,
+      },
+      {
+        onStep: () => undefined,
+        onUsage: (value) => {
+          usage.inputTokens += value.inputTokens;
+          usage.outputTokens += value.outputTokens;
+          usage.totalTokens += value.totalTokens;
+        },
+        onRetry: (attempt) => {
+          result.attempts = attempt + 1;
+        },
+      }
+    );
+    result.scores = scoreDecomposition(result.steps, testCase);
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+  result.durationMs = Date.now() - startedAt;
+
+  if (options.judge && result.steps.length > 0) {
+    try {
+      result.judge = await judgeDecomposition(
+        options.judge.model,
+        testCase,
+        result.steps
+      );
+    } catch (error) {
+      result.judgeError =
+        error instanceof Error ? error.message : String(error);
+    }
+  }
+  return result;
+}
+
+// 依次评测每个配置下的每条语料，单条出错只记录在结果中，不中断整次评测
+export async function runEvaluation(
+  cases: EvalCase[],
+  variants: EvalVariant[],
+  options: EvaluationOptions
+): Promise<EvalResult[]> {
+  const results: EvalResult[] = [];
+  for (const variant of variants) {
+    const config = resolveModelConfig(variant.model);
+    const model = createChatModel(config);
+    for (const testCase of cases) {
+      const result = await evaluateCase(
+        variant,
+        model,
+        config,
+        testCase,
+        options
+      );
+      results.push(result);
+      options.onResult?.(result);
+    }
+  }
+  return results;
+}
+
+export interface VariantSummary {
+  variant: string;
+  cases: number;
+  errors: number;
+  // 以下比例只统计成功返回结果的语料
+  allPassedRate: number;
+  ratioPassRate: number;
+  duplicatesPassRate: number;
+  stepCountPassRate: number;
+  siblingOverlapPassRate: number;
+  meanSiblingOverlap: number;
+  meanSteps: number;
+  meanAttempts: number;
+  totalTokens: number;
+  meanDurationMs: number;
+  judged: number;
+  roleLeakageRate: number | null;
+  orderedRate: number | null;
+}
+
+const mean = (values: number[]) =>
+  values.length === 0
+    ? 0
+    : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const rate = (values: boolean[]) => mean(values.map(Number));
+
+export function summarizeEvaluation(
+  results: EvalResult[],
+  variants: EvalVariant[]
+): VariantSummary[] {
+  return variants.map(({ name }) => {
+    const items = results.filter((result) => result.variant === name);
+    const scored = items.filter((result) => result.scores);
+    const scores = scored.map((result) => result.scores!);
+    const judged = items.filter((result) => result.judge);
+    return {
+      variant: name,
+      cases: items.length,
+      errors: items.length - scored.length,
+      allPassedRate: rate(
+        scored.map((result) => isAllPassed(result.scores!, result.judge))
+      ),
+      ratioPassRate: rate(scores.map((score) => score.ratioPassed)),
+      duplicatesPassRate: rate(scores.map((score) => score.duplicatesPassed)),
+      stepCountPassRate: rate(scores.map((score) => score.stepCountPassed)),
+      siblingOverlapPassRate: rate(
+        scores.map((score) => score.siblingOverlapPassed)
+      ),
+      meanSiblingOverlap: mean(scores.map((score) => score.siblingOverlap)),
+      meanSteps: mean(scores.map((score) => score.stepCount)),
+      meanAttempts: mean(scored.map((result) => result.attempts)),
+      totalTokens: items.reduce(
+        (sum, result) => sum + result.usage.totalTokens,
+        0
+      ),
+      meanDurationMs: mean(items.map((result) => result.durationMs)),
+      judged: judged.length,
+      roleLeakageRate:
+        judged.length > 0
+          ? rate(judged.map((result) => result.judge!.roleLeakage))
+          : null,
+      orderedRate:
+        judged.length > 0
+          ? rate(judged.map((result) => result.judge!.ordered))
+          : null,
+    };
+  });
+}
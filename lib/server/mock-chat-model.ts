@@ -0,0 +1,348 @@
+import { readFileSync } from "fs";
+import {
+  BaseChatModel,
+  BaseChatModelParams,
+  BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import { AIMessageChunk, BaseMessage } from "@langchain/core/messages";
+import { ChatGenerationChunk, ChatResult } from "@langchain/core/outputs";
+import { WorkflowStep } from "@/lib/workflow-stream";
+
+// 离线模拟模型：不联网，根据提示词按规则生成确定的拆解结果、AI 提效评估或评测评审，
+// 用于演示和自动化测试。输出像真实模型一样分块流式返回，并且可以注入各种故障
+
+export type MockFault =
+  // 第二个环节缺少冒号，JSON 无法解析
+  | "malformed_json"
+  // 输出到一半时抛出错误
+  | "stream_error"
+  // 不带 ```json 代码块标记
+  | "missing_fence";
+
+export const MOCK_FAULTS: MockFault[] = [
+  "malformed_json",
+  "stream_error",
+  "missing_fence",
+];
+
+export interface MockChatModelOptions extends BaseChatModelParams {
+  // 每个分块之前的等待时间（毫秒）
+  latency?: number;
+  // 每个分块的字符数
+  chunkSize?: number;
+  fault?: MockFault | null;
+  // 固定的拆解结果，按环节名称查找，未列出的环节按规则生成
+  script?: Record<string, WorkflowStep[]>;
+  // 绑定工具后以工具调用的形式返回结果
+  toolName?: string;
+}
+
+const PHASES = {
+  zh: [
+    "明确目标",
+    "收集信息",
+    "梳理要点",
+    "制定方案",
+    "沟通确认",
+    "执行处理",
+    "检查结果",
+    "整理记录",
+    "复核交付",
+    "同步进展",
+  ],
+  en: [
+    "Clarify goals",
+    "Gather information",
+    "Outline key points",
+    "Draft a plan",
+    "Confirm with stakeholders",
+    "Carry out the work",
+    "Check the results",
+    "Write up notes",
+    "Review and deliver",
+    "Share progress",
+  ],
+};
+
+const AUTOMATION_TOOLS = [
+  "大语言模型对话",
+  "文档智能总结",
+  "自动化工作流",
+  "代码助手",
+  "智能表格",
+  "语音转写",
+];
+
+// FNV-1a，同样的输入总是得到同样的结果
+function hash(text: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193) >>> 0;
+  }
+  return value;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// 按权重分配比例，保留两位小数且总和恰好为 1
+function toRatios(weights: number[]): number[] {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const ratios = weights.map((weight) => round2(weight / total));
+  const rest = ratios.slice(0, -1).reduce((sum, ratio) => sum + ratio, 0);
+  ratios[ratios.length - 1] = round2(1 - rest);
+  return ratios;
+}
+
+// 待拆解的环节：优先取上下文中 ▶ 标记的节点，其次取任务说明中引号内的工作内容
+function findLabel(prompt: string): string {
+  const marked = prompt.match(/^\s*▶ (.+)$/m);
+  if (marked) return marked[1].trim();
+  const quoted = prompt.match(/工作内容[：:]\s*"([^"\n]+)"/);
+  return quoted ? quoted[1].trim() : "工作";
+}
+
+function decompose(
+  prompt: string,
+  script: Record<string, WorkflowStep[]>
+): WorkflowStep[] {
+  const label = findLabel(prompt);
+  if (script[label]) return script[label];
+
+  const english = prompt.includes("Write every step name in English");
+  const phases = english ? PHASES.en : PHASES.zh;
+  const seed = hash(label);
+  const count = 3 + (seed % 3);
+  // 从词表中等间隔取出若干个阶段，保持环节的先后关系
+  const offset = seed % Math.floor(phases.length / count);
+  const picked = Array.from(
+    { length: count },
+    (_, index) => phases[Math.floor((index * phases.length) / count) + offset]
+  );
+  const names = picked.map((phase) =>
+    // 与树中已有的环节重名时带上所属环节，避免查重不通过
+    prompt.includes(phase) ? `${label}${english ? ": " : "·"}${phase}` : phase
+  );
+  const ratios = toRatios(names.map((_, index) => 1 + ((seed >> index) & 3)));
+  return names.map((text, index) => ({ text, ratio: ratios[index] }));
+}
+
+// AI 提效评估的提示词中，待评估的环节带有 [n1] 形式的编号
+function assess(prompt: string) {
+  const items = Array.from(prompt.matchAll(/\[(n\d+)\]\s*([^（(\n]+)/g));
+  return items.map(([, key, label]) => {
+    const seed = hash(label.trim());
+    const score = round2(0.1 + (seed % 80) / 100);
+    return {
+      key,
+      score,
+      approach: `使用 AI 辅助完成${label.trim()}中的重复性工作`,
+      tools: [
+        AUTOMATION_TOOLS[seed % AUTOMATION_TOOLS.length],
+        AUTOMATION_TOOLS[(seed >>> 4) % AUTOMATION_TOOLS.length],
+      ].filter((tool, index, tools) => tools.indexOf(tool) === index),
+      timeReduction: round2(score * 0.6),
+    };
+  });
+}
+
+function abortError(): Error {
+  const error = new Error("Aborted");
+  error.name = "AbortError";
+  return error;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function messageText(messages: BaseMessage[]): string {
+  return messages
+    .map((message) =>
+      typeof message.content === "string" ? message.content : ""
+    )
+    .join("\n");
+}
+
+export class MockChatModel extends BaseChatModel {
+  latency: number;
+  chunkSize: number;
+  fault: MockFault | null;
+  script: Record<string, WorkflowStep[]>;
+  toolName?: string;
+
+  constructor(options: MockChatModelOptions = {}) {
+    super(options);
+    this.latency = options.latency ?? 30;
+    this.chunkSize = Math.max(1, options.chunkSize ?? 12);
+    this.fault = options.fault ?? null;
+    this.script = options.script ?? {};
+    this.toolName = options.toolName;
+  }
+
+  _llmType() {
+    return "mock";
+  }
+
+  // 只使用第一个工具，withStructuredOutput 也只绑定一个
+  bindTools(tools: BindToolsInput[]) {
+    const tool = tools[0] as {
+      name?: string;
+      function?: { name?: string };
+    };
+    return new MockChatModel({
+      latency: this.latency,
+      chunkSize: this.chunkSize,
+      fault: this.fault,
+      script: this.script,
+      toolName: tool?.function?.name ?? tool?.name,
+    });
+  }
+
+  // 生成完整的输出内容，注入的 JSON 错误在这里加入
+  private render(prompt: string): string {
+    // 评测脚本的大模型评审只要求返回一个对象，模拟模型总是判定通过
+    if (prompt.includes('"roleLeakage"')) {
+      return `\`\`\`json\n${JSON.stringify(
+        {
+          roleLeakage: false,
+          ordered: true,
+          reason: "离线模拟评审，未检查内容",
+        },
+        null,
+        2
+      )}\n\`\`\``;
+    }
+    const isAssessment = /\[n\d+\]/.test(prompt);
+    const items = isAssessment
+      ? assess(prompt)
+      : decompose(prompt, this.script);
+    const payload = this.toolName
+      ? { [isAssessment ? "assessments" : "steps"]: items }
+      : items;
+    let json = JSON.stringify(payload, null, this.toolName ? undefined : 2);
+    if (this.fault === "malformed_json") {
+      let seen = 0;
+      json = json.replace(/"(text|key)":/g, (match) =>
+        ++seen === 2 ? match.slice(0, -1) : match
+      );
+    }
+    if (this.toolName || this.fault === "missing_fence") return json;
+    return `\`\`\`json\n${json}\n\`\`\``;
+  }
+
+  private toChunk(
+    text: string,
+    index: number,
+    isLast: boolean,
+    prompt: string,
+    output: string
+  ): ChatGenerationChunk {
+    const usage = isLast
+      ? {
+          // 粗略估算，便于界面显示用量
+          input_tokens: Math.ceil(prompt.length / 2),
+          output_tokens: Math.ceil(output.length / 2),
+          total_tokens: Math.ceil(prompt.length / 2 + output.length / 2),
+        }
+      : undefined;
+    const message = this.toolName
+      ? new AIMessageChunk({
+          content: "",
+          tool_call_chunks: [
+            {
+              type: "tool_call_chunk",
+              name: index === 0 ? this.toolName : undefined,
+              id: index === 0 ? "mock_call" : undefined,
+              args: text,
+              index: 0,
+            },
+          ],
+          usage_metadata: usage,
+        })
+      : new AIMessageChunk({ content: text, usage_metadata: usage });
+    return new ChatGenerationChunk({
+      text: this.toolName ? "" : text,
+      message,
+    });
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const prompt = messageText(messages);
+    const output = this.render(prompt);
+    const count = Math.ceil(output.length / this.chunkSize);
+
+    for (let index = 0; index < count; index++) {
+      await sleep(this.latency, options.signal);
+      if (this.fault === "stream_error" && index >= count / 2) {
+        throw new Error("Mock model stream interrupted");
+      }
+      const text = output.slice(
+        index * this.chunkSize,
+        (index + 1) * this.chunkSize
+      );
+      yield this.toChunk(text, index, index === count - 1, prompt, output);
+      await runManager?.handleLLMNewToken(text);
+    }
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): Promise<ChatResult> {
+    let final: ChatGenerationChunk | undefined;
+    for await (const chunk of this._streamResponseChunks(
+      messages,
+      options,
+      runManager
+    )) {
+      final = final ? final.concat(chunk) : chunk;
+    }
+    if (!final) throw new Error("Mock model produced no output");
+    return { generations: [{ text: final.text, message: final.message }] };
+  }
+}
+
+function isMockFault(value: unknown): value is MockFault {
+  return MOCK_FAULTS.includes(value as MockFault);
+}
+
+// MOCK_SCRIPT 指向的 JSON 文件：{ "环节名称": [{ "text": "...", "ratio": 0.3 }] }
+function readScript(file: string | undefined): Record<string, WorkflowStep[]> {
+  if (!file) return {};
+  try {
+    return JSON.parse(readFileSync(file, "utf8"));
+  } catch (error) {
+    console.warn("Failed to read mock script:", error);
+    return {};
+  }
+}
+
+// 从环境变量读取模拟模型的配置
+export function createMockChatModel(): MockChatModel {
+  const latency = Number(process.env.MOCK_LATENCY);
+  const chunkSize = Number(process.env.MOCK_CHUNK_SIZE);
+  return new MockChatModel({
+    latency: Number.isFinite(latency) && latency >= 0 ? latency : undefined,
+    chunkSize: chunkSize > 0 ? chunkSize : undefined,
+    fault: isMockFault(process.env.MOCK_FAULT) ? process.env.MOCK_FAULT : null,
+    script: readScript(process.env.MOCK_SCRIPT),
+  });
+}
@@ -0,0 +1,188 @@
+import { ChatOpenAI } from "@langchain/openai";
+import { ChatOllama } from "@langchain/ollama";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import {
+  ModelConfig,
+  ProviderId,
+  ProviderInfo,
+  isProviderId,
+} from "@/lib/providers";
+import { createMockChatModel } from "@/lib/server/mock-chat-model";
+
+interface ProviderDefinition {
+  // 从环境变量读取可选模型列表与默认地址
+  getInfo: () => ProviderInfo;
+  create: (config: ModelConfig) => BaseChatModel;
+  // 是否通过工具调用 / withStructuredOutput 获取结果
+  structuredOutput: () => boolean;
+}
+
+const DEFAULT_OLLAMA_BASE_URL = "http://localhost:11434";
+
+// 解析逗号分隔的环境变量
+function readList(value: string | undefined, fallback: string[]): string[] {
+  const items = (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : fallback;
+}
+
+// 读取布尔类型的环境变量
+function readFlag(value: string | undefined, fallback: boolean): boolean {
+  if (value === undefined || value === "") return fallback;
+  return value === "true" || value === "1";
+}
+
+const providers: Record<ProviderId, ProviderDefinition> = {
+  openai: {
+    getInfo: () => {
+      const models = readList(process.env.OPENAI_MODELS, ["qwen-max"]);
+      return {
+        id: "openai",
+        label: "OpenAI",
+        models,
+        defaultModel: models[0],
+        baseURL: process.env.OPENAI_BASE_URL,
+      };
+    },
+    create: (config) =>
+      new ChatOpenAI(
+        {
+          modelName: config.model,
+          temperature: config.temperature,
+          streaming: true,
+          openAIApiKey: process.env.OPENAI_API_KEY,
+          verbose: true,
+        },
+        { baseURL: config.baseURL }
+      ),
+    structuredOutput: () =>
+      readFlag(process.env.OPENAI_STRUCTURED_OUTPUT, true),
+  },
+  ollama: {
+    getInfo: () => {
+      const models = readList(process.env.OLLAMA_MODELS, ["qwen2.5:7b"]);
+      return {
+        id: "ollama",
+        label: "Ollama",
+        models,
+        defaultModel: models[0],
+        baseURL: process.env.OLLAMA_BASE_URL || DEFAULT_OLLAMA_BASE_URL,
+      };
+    },
+    create: (config) =>
+      new ChatOllama({
+        model: config.model,
+        temperature: config.temperature,
+        baseUrl: config.baseURL,
+      }),
+    // 本地小模型的工具调用不稳定，默认关闭
+    structuredOutput: () =>
+      readFlag(process.env.OLLAMA_STRUCTURED_OUTPUT, false),
+  },
+  mock: {
+    getInfo: () => ({
+      id: "mock",
+      label: "Mock",
+      models: ["mock"],
+      defaultModel: "mock",
+    }),
+    // 离线模拟，延迟、分块与故障注入见 createMockChatModel
+    create: () => createMockChatModel(),
+    structuredOutput: () => readFlag(process.env.MOCK_STRUCTURED_OUTPUT, false),
+  },
+};
+
+export function listProviders(): ProviderInfo[] {
+  return Object.values(providers).map((provider) => provider.getInfo());
+}
+
+export function getProviderInfo(id: ProviderId): ProviderInfo {
+  return providers[id].getInfo();
+}
+
+// 默认配置：LLM_PROVIDER / LLM_MODEL / LLM_TEMPERATURE
+export function getDefaultModelConfig(): ModelConfig {
+  const provider = isProviderId(process.env.LLM_PROVIDER)
+    ? process.env.LLM_PROVIDER
+    : "openai";
+  const info = getProviderInfo(provider);
+  const temperature = Number(process.env.LLM_TEMPERATURE);
+
+  return {
+    provider,
+    model: process.env.LLM_MODEL || info.defaultModel,
+    temperature: Number.isFinite(temperature) ? temperature : 1,
+    baseURL: info.baseURL,
+  };
+}
+
+export class ModelConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModelConfigError";
+  }
+}
+
+// 请求中只允许使用已配置的地址，避免把服务端的 API Key 发往任意主机
+function isAllowedBaseURL(provider: ProviderId, baseURL: string): boolean {
+  const allowed = [
+    getProviderInfo(provider).baseURL,
+    ...readList(process.env.LLM_ALLOWED_BASE_URLS, []),
+  ];
+  return allowed.includes(baseURL);
+}
+
+// 合并请求体中的模型配置与默认配置
+export function resolveModelConfig(requested?: unknown): ModelConfig {
+  const defaults = getDefaultModelConfig();
+  if (!requested || typeof requested !== "object") return defaults;
+
+  const { provider, model, temperature, baseURL } = requested as Partial<
+    Record<keyof ModelConfig, unknown>
+  >;
+
+  if (provider !== undefined && !isProviderId(provider)) {
+    throw new ModelConfigError(`Unknown provider: ${String(provider)}`);
+  }
+  const resolvedProvider = provider ?? defaults.provider;
+  const info = getProviderInfo(resolvedProvider);
+  const isDefaultProvider = resolvedProvider === defaults.provider;
+
+  let resolvedBaseURL = isDefaultProvider ? defaults.baseURL : info.baseURL;
+  if (typeof baseURL === "string" && baseURL.length > 0) {
+    if (!isAllowedBaseURL(resolvedProvider, baseURL)) {
+      throw new ModelConfigError(`Base URL is not allowed: ${baseURL}`);
+    }
+    resolvedBaseURL = baseURL;
+  }
+
+  let resolvedTemperature = defaults.temperature;
+  if (temperature !== undefined) {
+    if (typeof temperature !== "number" || temperature < 0 || temperature > 2) {
+      throw new ModelConfigError("Temperature must be a number in [0, 2]");
+    }
+    resolvedTemperature = temperature;
+  }
+
+  return {
+    provider: resolvedProvider,
+    model:
+      typeof model === "string" && model.length > 0
+        ? model
+        : isDefaultProvider
+          ? defaults.model
+          : info.defaultModel,
+    temperature: resolvedTemperature,
+    baseURL: resolvedBaseURL,
+  };
+}
+
+export function createChatModel(config: ModelConfig): BaseChatModel {
+  return providers[config.provider].create(config);
+}
+
+export function supportsStructuredOutput(config: ModelConfig): boolean {
+  return providers[config.provider].structuredOutput();
+}
@@ -0,0 +1,124 @@
+import { PromptTemplate } from "@langchain/core/prompts";
+import {
+  DEFAULT_PROMPT_TEMPLATE_ID,
+  getBuiltInPromptTemplate,
+  PromptExample,
+  describeTemplateIssue,
+  PromptTemplateData,
+  renderPromptTemplate,
+  validatePromptTemplate,
+} from "@/lib/prompt-templates";
+import { isLocale, Locale } from "@/lib/i18n";
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromptTemplateError";
+  }
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string";
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(isString);
+}
+
+function toExample(value: unknown): PromptExample {
+  const { input, steps, correct, reason } = (value ?? {}) as Record<
+    string,
+    unknown
+  >;
+  if (!isString(input) || !isStringArray(steps) || !isString(reason)) {
+    throw new PromptTemplateError("Invalid prompt template example");
+  }
+  return { input, steps, correct: correct !== false, reason };
+}
+
+// 检查请求体中自定义模板的字段类型
+function toTemplateData(value: object): PromptTemplateData {
+  const { id, name, role, task, rules, examples, outputFormat } =
+    value as Record<string, unknown>;
+  if (
+    !isString(role) ||
+    !isString(task) ||
+    !isStringArray(rules) ||
+    !isString(outputFormat) ||
+    (examples !== undefined && !Array.isArray(examples))
+  ) {
+    throw new PromptTemplateError("Invalid prompt template");
+  }
+  return {
+    id: isString(id) ? id : "custom",
+    name: isString(name) ? name : "自定义",
+    role,
+    task,
+    rules,
+    examples: (examples ?? []).map(toExample),
+    outputFormat,
+  };
+}
+
+// 请求体中可以是内置模板的 id 或完整的自定义模板，为空时使用默认模板
+export function resolvePromptTemplate(requested?: unknown): PromptTemplateData {
+  if (requested === undefined || requested === null) {
+    return getBuiltInPromptTemplate(DEFAULT_PROMPT_TEMPLATE_ID)!;
+  }
+  if (isString(requested)) {
+    const template = getBuiltInPromptTemplate(requested);
+    if (!template) {
+      throw new PromptTemplateError(`Unknown prompt template: ${requested}`);
+    }
+    return template;
+  }
+  if (typeof requested !== "object") {
+    throw new PromptTemplateError("Invalid prompt template");
+  }
+
+  const template = toTemplateData(requested);
+  const errors = validatePromptTemplate(template);
+  if (errors.length > 0) {
+    throw new PromptTemplateError(
+      `Invalid prompt template: ${errors
+        .map((error) => describeTemplateIssue(error, "en"))
+        .join("; ")}`
+    );
+  }
+  return template;
+}
+
+export function createPromptTemplate(
+  template: PromptTemplateData
+): PromptTemplate {
+  return PromptTemplate.fromTemplate(renderPromptTemplate(template));
+}
+
+// 要求模型使用的输出语言，与工作流程树中已有环节的语言无关
+const OUTPUT_LANGUAGE_INSTRUCTIONS: Record<Locale, string> = {
+  zh: "所有工作环节名称使用简体中文",
+  en: "Write every step name in English, even if the workflow tree above uses another language",
+};
+
+// 未指定时不追加语言要求，沿用模板本身的语言
+export function resolveOutputLanguage(requested?: unknown): Locale | null {
+  if (requested === undefined || requested === null) return null;
+  if (!isLocale(requested)) {
+    throw new PromptTemplateError(
+      `Unknown output language: ${String(requested)}`
+    );
+  }
+  return requested;
+}
+
+export function withOutputLanguage(
+  prompt: string,
+  language: Locale | null
+): string {
+  if (!language) return prompt;
+  return `${prompt}
+<output_language>
+  ${OUTPUT_LANGUAGE_INSTRUCTIONS[language]}
+</output_language>
+`;
+}
@@ -0,0 +1,153 @@
+// 内存中的令牌桶限流：每个客户端一个桶，按固定速率补充令牌，每次请求消耗一个。
+// 只在单个服务进程内生效，多实例部署时各实例分别计数
+
+export interface TokenBucketOptions {
+  // 桶的容量，即允许的突发请求数
+  capacity: number;
+  // 每秒补充的令牌数
+  refillPerSecond: number;
+  // 最多记录的客户端数，超出时先清理已经补满的桶
+  maxKeys?: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // 被拒绝时距离下一个令牌的秒数
+  retryAfterSeconds: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const DEFAULT_MAX_KEYS = 10000;
+
+export function createTokenBucketLimiter(options: TokenBucketOptions) {
+  const buckets = new Map<string, Bucket>();
+  const maxKeys = options.maxKeys ?? DEFAULT_MAX_KEYS;
+
+  const refill = (bucket: Bucket, now: number) =>
+    Math.min(
+      options.capacity,
+      bucket.tokens +
+        ((now - bucket.updatedAt) / 1000) * options.refillPerSecond
+    );
+
+  const evict = (now: number) => {
+    buckets.forEach((bucket, key) => {
+      if (refill(bucket, now) >= options.capacity) buckets.delete(key);
+    });
+    // 仍然过多时按插入顺序删除最早的记录
+    const keys = Array.from(buckets.keys());
+    for (let i = 0; buckets.size >= maxKeys && i < keys.length; i++) {
+      buckets.delete(keys[i]);
+    }
+  };
+
+  return {
+    take(key: string, now = Date.now()): RateLimitResult {
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        if (buckets.size >= maxKeys) evict(now);
+        bucket = { tokens: options.capacity, updatedAt: now };
+        buckets.set(key, bucket);
+      }
+      bucket.tokens = refill(bucket, now);
+      bucket.updatedAt = now;
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return {
+          allowed: true,
+          remaining: Math.floor(bucket.tokens),
+          retryAfterSeconds: 0,
+        };
+      }
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterSeconds: Math.ceil(
+          (1 - bucket.tokens) / options.refillPerSecond
+        ),
+      };
+    },
+  };
+}
+
+// 无法区分客户端时共用的桶
+export const SHARED_CLIENT_KEY = "shared";
+
+export interface ClientKeyOptions {
+  // 反向代理写入客户端地址的请求头，例如 Nginx 的 X-Real-IP。
+  // 代理会覆盖客户端自带的同名请求头，因此可以信任
+  clientIpHeader?: string;
+  // 反向代理的层数，按 X-Forwarded-For 中由代理追加的地址区分客户端
+  trustedProxyHops?: number;
+}
+
+// 以客户端 IP 区分请求方。X-Forwarded-For 可以由客户端随意伪造，
+// 只有部署在可信的反向代理后面（trustedProxyHops > 0）时才读取，
+// 并取最外层可信代理追加的那一项；都没有配置时返回 SHARED_CLIENT_KEY
+export function getClientKey(
+  req: Request,
+  { clientIpHeader, trustedProxyHops = 0 }: ClientKeyOptions = {}
+): string {
+  if (clientIpHeader) {
+    const ip = req.headers.get(clientIpHeader)?.trim();
+    if (ip) return ip;
+  }
+  if (trustedProxyHops <= 0) return SHARED_CLIENT_KEY;
+  const hops = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  // 每层代理在末尾追加它看到的来源地址；项数不足说明请求没有经过全部代理
+  if (hops.length < trustedProxyHops) return SHARED_CLIENT_KEY;
+  return hops[hops.length - trustedProxyHops];
+}
+
+function readPositiveNumber(value: string | undefined, fallback: number) {
+  return Number(value) > 0 ? Number(value) : fallback;
+}
+
+// 每个客户端每分钟允许的请求数，可以通过 WORKFLOW_RATE_LIMIT 调整
+const RATE_LIMIT_PER_MINUTE = readPositiveNumber(
+  process.env.WORKFLOW_RATE_LIMIT,
+  20
+);
+
+// 无法区分客户端时整个服务进程每分钟允许的请求数，只用于防止模型调用失控，
+// 不是按客户端的限制，可以通过 WORKFLOW_GLOBAL_RATE_LIMIT 调整
+const GLOBAL_RATE_LIMIT_PER_MINUTE = readPositiveNumber(
+  process.env.WORKFLOW_GLOBAL_RATE_LIMIT,
+  300
+);
+
+const CLIENT_KEY_OPTIONS: ClientKeyOptions = {
+  clientIpHeader: process.env.WORKFLOW_CLIENT_IP_HEADER?.trim() || undefined,
+  // 部署在反向代理后面时设置为代理的层数，才会按转发头中的客户端 IP 分别限流
+  trustedProxyHops: Math.max(
+    0,
+    Math.floor(Number(process.env.WORKFLOW_TRUSTED_PROXY_HOPS) || 0)
+  ),
+};
+
+function createPerMinuteLimiter(limit: number) {
+  return createTokenBucketLimiter({
+    capacity: limit,
+    refillPerSecond: limit / 60,
+  });
+}
+
+// /api/workflow 与 /api/automation 都会调用模型，共用同一组限流器
+const clientLimiter = createPerMinuteLimiter(RATE_LIMIT_PER_MINUTE);
+const globalLimiter = createPerMinuteLimiter(GLOBAL_RATE_LIMIT_PER_MINUTE);
+
+export function takeModelRequestToken(req: Request): RateLimitResult {
+  const key = getClientKey(req, CLIENT_KEY_OPTIONS);
+  return key === SHARED_CLIENT_KEY
+    ? globalLimiter.take(key)
+    : clientLimiter.take(key);
+}
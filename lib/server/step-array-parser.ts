@@ -0,0 +1,119 @@
+import { z } from "zod";
+
+// 容错的增量 JSON 数组解析器：
+// - 不依赖 ```json 代码块，裸 JSON、普通 ``` 代码块或 {"steps": [...]} 都可以识别
+// - 每当数组中的一个对象闭合，就立即解析、校验并回调
+// - 跳过字符串中的括号，环节名称里出现 "{"、"}" 或 "]" 也不会出错
+export function createStepArrayParser<T>(
+  schema: z.ZodType<T>,
+  handlers: {
+    onStep: (step: T) => void;
+    onInvalid?: (raw: string) => void;
+  }
+) {
+  // seeking: 寻找数组开始；afterBracket: 确认 "[" 后面是对象；inArray: 解析数组元素
+  let state: "seeking" | "afterBracket" | "inArray" | "finished" = "seeking";
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let current = "";
+
+  const emit = (raw: string) => {
+    const parsed = parseLoose(raw);
+    const result =
+      parsed === undefined ? null : schema.safeParse(coerce(parsed));
+    if (result?.success) {
+      handlers.onStep(result.data);
+    } else {
+      handlers.onInvalid?.(raw);
+    }
+  };
+
+  const push = (text: string) => {
+    for (const char of text) {
+      if (state === "finished") return;
+
+      if (state === "seeking") {
+        if (char === "[") state = "afterBracket";
+        continue;
+      }
+
+      if (state === "afterBracket") {
+        if (/\s/.test(char)) continue;
+        if (char === "]") {
+          state = "finished";
+          return;
+        }
+        // 说明文字里的 "[注意]" 之类不是结果数组
+        state = char === "{" ? "inArray" : "seeking";
+        if (state === "seeking") continue;
+      }
+
+      if (depth > 0) current += char;
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === "\\") {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = depth > 0;
+      } else if (char === "{") {
+        if (depth === 0) current = "{";
+        depth++;
+      } else if (char === "}" && depth > 0) {
+        depth--;
+        if (depth === 0) {
+          emit(current);
+          current = "";
+        }
+      } else if (char === "]" && depth === 0) {
+        state = "finished";
+      }
+    }
+  };
+
+  return {
+    push,
+    // 是否已经找到并读完了结果数组
+    isFinished: () => state === "finished",
+  };
+}
+
+// 先按标准 JSON 解析，失败后去掉尾随逗号再试
+function parseLoose(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    try {
+      return JSON.parse(raw.replace(/,\s*([}\]])/g, "$1"));
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+// 兼容模型常见的字段变体，例如 name 代替 text、"30%" 代替 0.3
+function coerce(value: unknown): unknown {
+  if (!value || typeof value !== "object") return value;
+  const item = value as Record<string, unknown>;
+  const text = item.text ?? item.name ?? item.title;
+  let ratio = item.ratio ?? item.proportion;
+
+  if (typeof ratio === "string") {
+    const isPercent = ratio.trim().endsWith("%");
+    ratio = parseFloat(ratio);
+    if (isPercent && typeof ratio === "number") ratio = ratio / 100;
+  }
+  if (typeof ratio === "number" && ratio > 1 && ratio <= 100) {
+    ratio = ratio / 100;
+  }
+
+  return { ...item, text, ratio };
+}
@@ -0,0 +1,101 @@
+import { FlowData } from "@/lib/stores/flow-store";
+import {
+  DecompositionCheck,
+  DuplicateStep,
+  WorkflowStep,
+} from "@/lib/workflow-stream";
+
+export const MIN_STEPS = 2;
+export const MAX_STEPS = 8;
+const RATIO_SUM_TOLERANCE = 0.05;
+// 两个名称的相似度超过该值即视为重复
+const NEAR_DUPLICATE_THRESHOLD = 0.75;
+
+// 统一大小写、全半角，去掉空白和标点
+export function normalizeLabel(label: string): string {
+  return label
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^0-9a-z\u00c0-\u024f\u3040-\u30ff\u3400-\u9fff]/g, "");
+}
+
+function bigrams(text: string): string[] {
+  const chars = Array.from(text);
+  if (chars.length < 2) return chars;
+  return chars.slice(0, -1).map((char, index) => char + chars[index + 1]);
+}
+
+// Dice 系数，比较两个规范化后的名称
+export function labelSimilarity(a: string, b: string): number {
+  const left = normalizeLabel(a);
+  const right = normalizeLabel(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  const remaining = [...rightBigrams];
+  let overlap = 0;
+  for (const gram of leftBigrams) {
+    const index = remaining.indexOf(gram);
+    if (index !== -1) {
+      overlap++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * overlap) / (leftBigrams.length + rightBigrams.length);
+}
+
+function collectLabels(data: FlowData | null): string[] {
+  if (!data) return [];
+  return [data.label, ...data.children.flatMap(collectLabels)];
+}
+
+// 检查拆解结果是否满足提示词中的规则
+export function validateDecomposition(
+  steps: WorkflowStep[],
+  flowData: FlowData | null,
+  parentLabel: string
+): DecompositionCheck[] {
+  const ratioSum = steps.reduce((sum, step) => sum + step.ratio, 0);
+  const ratioPassed = Math.abs(ratioSum - 1) <= RATIO_SUM_TOLERANCE;
+
+  const existingLabels = flowData ? collectLabels(flowData) : [parentLabel];
+  const duplicates: DuplicateStep[] = [];
+  steps.forEach((step, index) => {
+    const treeMatch = existingLabels.find(
+      (label) => labelSimilarity(step.text, label) >= NEAR_DUPLICATE_THRESHOLD
+    );
+    if (treeMatch) {
+      duplicates.push({ text: step.text, match: treeMatch, sibling: false });
+      return;
+    }
+    const siblingMatch = steps
+      .slice(0, index)
+      .find(
+        (other) =>
+          labelSimilarity(step.text, other.text) >= NEAR_DUPLICATE_THRESHOLD
+      );
+    if (siblingMatch) {
+      duplicates.push({
+        text: step.text,
+        match: siblingMatch.text,
+        sibling: true,
+      });
+    }
+  });
+
+  const countPassed = steps.length >= MIN_STEPS && steps.length <= MAX_STEPS;
+
+  return [
+    { id: "ratio-sum", passed: ratioPassed, sum: ratioSum },
+    { id: "duplicates", passed: duplicates.length === 0, duplicates },
+    {
+      id: "step-count",
+      passed: countPassed,
+      count: steps.length,
+      min: MIN_STEPS,
+      max: MAX_STEPS,
+    },
+  ];
+}
@@ -0,0 +1,248 @@
+import { z } from "zod";
+import { FlowData } from "@/lib/stores/flow-store";
+import { WorkflowErrorBody, WorkflowErrorCode } from "@/lib/workflow-stream";
+
+// /api/workflow 与 /api/automation 接受的请求上限，超出时在调用模型之前直接拒绝
+export const WORKFLOW_LIMITS = {
+  maxBodyBytes: 256 * 1024,
+  maxTextLength: 500,
+  maxLabelLength: 200,
+  maxTreeNodes: 500,
+  maxTreeDepth: 12,
+};
+
+export class WorkflowRequestError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: WorkflowErrorCode,
+    message: string,
+    readonly details?: string[]
+  ) {
+    super(message);
+    this.name = "WorkflowRequestError";
+  }
+}
+
+export function toErrorResponse(
+  body: WorkflowErrorBody,
+  status: number,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+// 只校验服务端用到的字段，其余字段（时间预算、评估结果等）原样保留
+const flowDataSchema: z.ZodType<Pick<FlowData, "id" | "label" | "depth">> =
+  z.lazy(() =>
+    z.object({
+      id: z.string().min(1),
+      label: z.string().max(WORKFLOW_LIMITS.maxLabelLength),
+      depth: z.number().int().min(0),
+      ratio: z.number().finite().min(0),
+      children: z.array(flowDataSchema),
+    })
+  );
+
+const workflowRequestSchema = z.object({
+  text: z.string().trim().min(1).max(WORKFLOW_LIMITS.maxTextLength),
+  flowData: flowDataSchema.nullish(),
+  nodeId: z.string().min(1).nullish(),
+  bypassCache: z.boolean().optional(),
+  // 以下字段由模型注册表与模板模块各自校验
+  model: z.unknown(),
+  template: z.unknown(),
+  language: z.unknown(),
+});
+
+const automationRequestSchema = z.object({
+  flowData: flowDataSchema,
+  nodeId: z.string().min(1).nullish(),
+  model: z.unknown(),
+});
+
+export interface WorkflowRequest {
+  text: string;
+  flowData: FlowData | null;
+  nodeId: string | null;
+  bypassCache?: boolean;
+  model?: unknown;
+  template?: unknown;
+  language?: unknown;
+}
+
+export interface AutomationRequest {
+  flowData: FlowData;
+  nodeId: string | null;
+  model?: unknown;
+}
+
+// 在 zod 逐层解析之前先统计节点数与层数，避免超大或过深的树耗尽调用栈
+function measureTree(root: unknown): { nodes: number; depth: number } {
+  let nodes = 0;
+  let depth = 0;
+  const stack: { value: unknown; level: number }[] = [
+    { value: root, level: 1 },
+  ];
+  while (stack.length > 0) {
+    const { value, level } = stack.pop()!;
+    nodes++;
+    depth = Math.max(depth, level);
+    if (
+      nodes > WORKFLOW_LIMITS.maxTreeNodes ||
+      depth > WORKFLOW_LIMITS.maxTreeDepth
+    ) {
+      break;
+    }
+    const children = (value as { children?: unknown } | null)?.children;
+    if (Array.isArray(children)) {
+      children.forEach((child) =>
+        stack.push({ value: child, level: level + 1 })
+      );
+    }
+  }
+  return { nodes, depth };
+}
+
+function containsNode(root: FlowData, nodeId: string): boolean {
+  return (
+    root.id === nodeId ||
+    root.children.some((child) => containsNode(child, nodeId))
+  );
+}
+
+function formatIssue(issue: z.ZodIssue): string {
+  const path = issue.path.join(".");
+  return path ? `${path}: ${issue.message}` : issue.message;
+}
+
+// 被限流时的响应，两个调用模型的接口共用
+export function toRateLimitedResponse(retryAfterSeconds: number): Response {
+  return toErrorResponse(
+    {
+      error: "Too many requests",
+      code: "rate_limited",
+      retryAfter: retryAfterSeconds,
+    },
+    429,
+    { "Retry-After": String(retryAfterSeconds) }
+  );
+}
+
+// 检查字节数后解析 JSON 请求体
+async function readJsonBody(req: Request): Promise<unknown> {
+  const tooLarge = () =>
+    new WorkflowRequestError(
+      413,
+      "payload_too_large",
+      `Request body exceeds ${WORKFLOW_LIMITS.maxBodyBytes} bytes`
+    );
+
+  const declaredLength = Number(req.headers.get("content-length"));
+  if (declaredLength > WORKFLOW_LIMITS.maxBodyBytes) throw tooLarge();
+  // content-length 可能缺失或不准确，读取后按实际字节数再检查一次
+  const raw = await req.text();
+  if (new TextEncoder().encode(raw).length > WORKFLOW_LIMITS.maxBodyBytes) {
+    throw tooLarge();
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new WorkflowRequestError(
+      400,
+      "invalid_request",
+      "Request body is not valid JSON"
+    );
+  }
+}
+
+// 返回请求体中的原始树，超出节点数或层数上限时抛出
+function checkTreeLimits(body: unknown): unknown {
+  const tree = (body as { flowData?: unknown } | null)?.flowData;
+  if (tree) {
+    const { nodes, depth } = measureTree(tree);
+    const details: string[] = [];
+    if (nodes > WORKFLOW_LIMITS.maxTreeNodes) {
+      details.push(`flowData: more than ${WORKFLOW_LIMITS.maxTreeNodes} nodes`);
+    }
+    if (depth > WORKFLOW_LIMITS.maxTreeDepth) {
+      details.push(
+        `flowData: deeper than ${WORKFLOW_LIMITS.maxTreeDepth} levels`
+      );
+    }
+    if (details.length > 0) {
+      throw new WorkflowRequestError(
+        413,
+        "limit_exceeded",
+        "Workflow tree is too large",
+        details
+      );
+    }
+  }
+  return tree;
+}
+
+function assertNodeInTree(flowData: FlowData | null, nodeId: string | null) {
+  if (flowData && nodeId && !containsNode(flowData, nodeId)) {
+    throw new WorkflowRequestError(
+      400,
+      "invalid_request",
+      `Node ${nodeId} not found in workflow tree`
+    );
+  }
+}
+
+// 读取并校验请求体，不符合要求时抛出 WorkflowRequestError
+export async function parseWorkflowRequest(
+  req: Request
+): Promise<WorkflowRequest> {
+  const body = await readJsonBody(req);
+  const tree = checkTreeLimits(body);
+
+  const result = workflowRequestSchema.safeParse(body);
+  if (!result.success) {
+    const isTextTooLong = result.error.issues.some(
+      (issue) => issue.path[0] === "text" && issue.code === "too_big"
+    );
+    throw new WorkflowRequestError(
+      isTextTooLong ? 413 : 400,
+      isTextTooLong ? "limit_exceeded" : "invalid_request",
+      "Invalid workflow request",
+      result.error.issues.map(formatIssue)
+    );
+  }
+
+  // 校验通过后使用原始的树，保留 schema 之外的字段
+  const flowData = result.data.flowData ? (tree as FlowData) : null;
+  const nodeId = result.data.nodeId ?? null;
+  assertNodeInTree(flowData, nodeId);
+
+  return { ...result.data, flowData, nodeId };
+}
+
+// /api/automation 的请求体：必须带上工作流程树，nodeId 为空时评估整棵树
+export async function parseAutomationRequest(
+  req: Request
+): Promise<AutomationRequest> {
+  const body = await readJsonBody(req);
+  const tree = checkTreeLimits(body);
+
+  const result = automationRequestSchema.safeParse(body);
+  if (!result.success) {
+    throw new WorkflowRequestError(
+      400,
+      "invalid_request",
+      "Invalid automation request",
+      result.error.issues.map(formatIssue)
+    );
+  }
+
+  const flowData = tree as FlowData;
+  const nodeId = result.data.nodeId ?? null;
+  assertNodeInTree(flowData, nodeId);
+
+  return { flowData, nodeId, model: result.data.model };
+}
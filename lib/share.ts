@@ -0,0 +1,192 @@
+import { FlowData } from "@/lib/stores/flow-store";
+import { EXPORT_FORMAT, toCanonicalJSON } from "@/lib/exporters";
+import { normalizeImportedTree, parseJSONTree } from "@/lib/importers";
+import { CURRENT_SCHEMA_VERSION } from "@/lib/storage/migrations";
+
+// 分享链接：把整棵工作流程树压缩后放在地址的 # 之后。
+// 这部分不会发送给服务端，打开链接的人在本地解压并以只读方式查看
+
+export const SHARE_HASH_PREFIX = "#share=";
+
+// 链接中压缩数据的最大长度，过长的链接在聊天工具中容易被截断
+export const MAX_SHARE_DATA_LENGTH = 32 * 1024;
+
+// 解压后的最大字节数，防止构造的数据解压后占满内存
+const MAX_SHARE_JSON_BYTES = 2 * 1024 * 1024;
+
+export type ShareErrorCode =
+  // 工作流程树或链接超出大小限制
+  | "too_large"
+  // 链接不完整或内容无法解析
+  | "corrupt"
+  // 链接由更新版本的应用生成
+  | "unsupported_version"
+  // 浏览器不支持 CompressionStream
+  | "unsupported_browser";
+
+export class ShareLinkError extends Error {
+  constructor(
+    readonly code: ShareErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "ShareLinkError";
+  }
+}
+
+function assertCompressionSupported() {
+  if (
+    typeof CompressionStream === "undefined" ||
+    typeof DecompressionStream === "undefined"
+  ) {
+    throw new ShareLinkError(
+      "unsupported_browser",
+      "CompressionStream is not supported"
+    );
+  }
+}
+
+// 读取经过压缩或解压的数据，超过 limit 字节时停止读取
+async function transform(
+  input: BlobPart,
+  stream: CompressionStream | DecompressionStream,
+  limit = Infinity
+): Promise<Uint8Array> {
+  const reader = new Blob([input]).stream().pipeThrough(stream).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > limit) {
+      await reader.cancel();
+      throw new ShareLinkError(
+        "too_large",
+        `Shared workflow exceeds ${limit} bytes`
+      );
+    }
+    chunks.push(value);
+  }
+  const result = new Uint8Array(length);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+}
+
+// URL 安全的 Base64，不带末尾的 =
+function toBase64URL(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64URL(text: string) {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+// 与导出的 JSON 相同的格式；节点 id 在打开时重新生成，不写入链接
+export async function encodeSharedFlowData(root: FlowData): Promise<string> {
+  assertCompressionSupported();
+  const json = JSON.stringify(
+    JSON.parse(toCanonicalJSON(root)),
+    (key, value) => (key === "id" ? undefined : value)
+  );
+  const compressed = await transform(
+    new TextEncoder().encode(json),
+    new CompressionStream("deflate-raw")
+  );
+  const data = toBase64URL(compressed);
+  if (data.length > MAX_SHARE_DATA_LENGTH) {
+    throw new ShareLinkError(
+      "too_large",
+      `Share link would be ${data.length} characters long`
+    );
+  }
+  return data;
+}
+
+export async function createShareLink(
+  root: FlowData,
+  baseURL: string
+): Promise<string> {
+  const data = await encodeSharedFlowData(root);
+  return `${baseURL.split("#")[0]}${SHARE_HASH_PREFIX}${data}`;
+}
+
+// 地址中的分享数据，不是分享链接时返回 null
+export function readShareHash(hash: string): string | null {
+  return hash.startsWith(SHARE_HASH_PREFIX)
+    ? hash.slice(SHARE_HASH_PREFIX.length)
+    : null;
+}
+
+// 去掉地址中的分享数据，不触发 hashchange
+export function clearShareHash() {
+  window.history.replaceState(
+    window.history.state,
+    "",
+    window.location.pathname + window.location.search
+  );
+}
+
+export async function decodeSharedFlowData(data: string): Promise<FlowData> {
+  if (data.length > MAX_SHARE_DATA_LENGTH) {
+    throw new ShareLinkError(
+      "too_large",
+      `Share link data is ${data.length} characters long`
+    );
+  }
+  assertCompressionSupported();
+
+  let json: string;
+  try {
+    const bytes = await transform(
+      fromBase64URL(data),
+      new DecompressionStream("deflate-raw"),
+      MAX_SHARE_JSON_BYTES
+    );
+    json = new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch (error) {
+    if (error instanceof ShareLinkError) throw error;
+    throw new ShareLinkError("corrupt", "Share link data cannot be decoded");
+  }
+
+  let document: Record<string, unknown> | null;
+  try {
+    document = JSON.parse(json);
+  } catch {
+    throw new ShareLinkError("corrupt", "Share link data is not valid JSON");
+  }
+  if (document?.format !== EXPORT_FORMAT) {
+    throw new ShareLinkError("corrupt", "Share link data has unknown format");
+  }
+  if (
+    typeof document.schemaVersion === "number" &&
+    document.schemaVersion > CURRENT_SCHEMA_VERSION
+  ) {
+    throw new ShareLinkError(
+      "unsupported_version",
+      `Share link uses a newer schema (${document.schemaVersion})`
+    );
+  }
+
+  try {
+    // 格式已在上面确认，导出的文档只有一个根节点
+    return normalizeImportedTree(parseJSONTree(json)[0]);
+  } catch (error) {
+    throw new ShareLinkError(
+      "corrupt",
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
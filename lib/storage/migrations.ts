@@ -0,0 +1,64 @@
+import { FlowData } from "@/lib/stores/flow-store";
+
+// 存储结构的版本号，FlowData 字段变化时递增并在下方添加迁移函数
+export const CURRENT_SCHEMA_VERSION = 2;
+
+export interface StoredProject {
+  id: string;
+  name: string;
+  schemaVersion: number;
+  createdAt: number;
+  updatedAt: number;
+  // 拆解时使用的提示词模板，为空时使用默认模板
+  templateId?: string | null;
+  flowData: FlowData | null;
+}
+
+type Migration = (project: Record<string, unknown>) => Record<string, unknown>;
+
+function withoutChecks(node: FlowData): FlowData {
+  const result = { ...node, children: node.children.map(withoutChecks) };
+  delete result.checks;
+  return result;
+}
+
+// MIGRATIONS[n] 把版本 n 的数据升级到版本 n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  // 版本 0：没有版本号、直接保存 FlowData 的早期数据
+  0: (project) => ({
+    ...project,
+    flowData: project.flowData ?? null,
+    schemaVersion: 1,
+  }),
+  // 版本 1：校验项只保存了中文说明，无法按界面语言显示，直接去掉
+  1: (project) => ({
+    ...project,
+    flowData: project.flowData
+      ? withoutChecks(project.flowData as FlowData)
+      : null,
+    schemaVersion: 2,
+  }),
+};
+
+export function migrateProject(raw: Record<string, unknown>): StoredProject {
+  let project = raw;
+  let version =
+    typeof project.schemaVersion === "number" ? project.schemaVersion : 0;
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Project ${String(project.id)} uses a newer schema (${version})`
+    );
+  }
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from schema version ${version}`);
+    }
+    project = migrate(project);
+    version++;
+  }
+
+  return project as unknown as StoredProject;
+}
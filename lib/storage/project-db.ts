@@ -0,0 +1,92 @@
+import {
+  CURRENT_SCHEMA_VERSION,
+  migrateProject,
+  StoredProject,
+} from "@/lib/storage/migrations";
+
+const DB_NAME = "pyramid-model";
+const DB_VERSION = 2;
+const PROJECT_STORE = "projects";
+export const TEMPLATE_STORE = "templates";
+
+export type ProjectSummary = Omit<StoredProject, "flowData">;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+          db.createObjectStore(PROJECT_STORE, { keyPath: "id" });
+        }
+        // 版本 2：自定义提示词模板
+        if (!db.objectStoreNames.contains(TEMPLATE_STORE)) {
+          db.createObjectStore(TEMPLATE_STORE, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// 把 IDBRequest 包装成 Promise
+export function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getStore(
+  mode: IDBTransactionMode,
+  name: string = PROJECT_STORE
+) {
+  const db = await openDatabase();
+  return db.transaction(name, mode).objectStore(name);
+}
+
+function toSummary(project: StoredProject): ProjectSummary {
+  return {
+    id: project.id,
+    name: project.name,
+    schemaVersion: project.schemaVersion,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+    templateId: project.templateId,
+  };
+}
+
+// 按最近修改时间倒序列出项目
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const store = await getStore("readonly");
+  const records = await toPromise(store.getAll());
+  return records
+    .map((record) => toSummary(migrateProject(record)))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getProject(id: string): Promise<StoredProject | null> {
+  const store = await getStore("readonly");
+  const record = await toPromise(store.get(id));
+  return record ? migrateProject(record) : null;
+}
+
+export async function saveProject(project: StoredProject): Promise<void> {
+  const store = await getStore("readwrite");
+  await toPromise(
+    store.put({ ...project, schemaVersion: CURRENT_SCHEMA_VERSION })
+  );
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  const store = await getStore("readwrite");
+  await toPromise(store.delete(id));
+}
@@ -0,0 +1,22 @@
+import { PromptTemplateData } from "@/lib/prompt-templates";
+import { getStore, TEMPLATE_STORE, toPromise } from "@/lib/storage/project-db";
+
+// 自定义提示词模板与项目保存在同一个 IndexedDB 中
+
+export async function listTemplates(): Promise<PromptTemplateData[]> {
+  const store = await getStore("readonly", TEMPLATE_STORE);
+  const records: PromptTemplateData[] = await toPromise(store.getAll());
+  return records.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveTemplate(
+  template: PromptTemplateData
+): Promise<void> {
+  const store = await getStore("readwrite", TEMPLATE_STORE);
+  await toPromise(store.put({ ...template, builtIn: false }));
+}
+
+export async function deleteTemplate(id: string): Promise<void> {
+  const store = await getStore("readwrite", TEMPLATE_STORE);
+  await toPromise(store.delete(id));
+}
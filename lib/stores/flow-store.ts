@@ -1,5 +1,27 @@
 import { create } from "zustand";
-import { Node, Edge } from "reactflow";
+import {
+  Node,
+  Edge,
+  NodeChange,
+  EdgeChange,
+  applyNodeChanges,
+  applyEdgeChanges,
+} from "reactflow";
+import { ModelConfig } from "@/lib/providers";
+import { DecompositionCheck, WorkflowErrorBody } from "@/lib/workflow-stream";
+import { TimeBudget } from "@/lib/time-budget";
+import { AutomationAssessment, AutomationAssessments } from "@/lib/automation";
+import { LayoutOrientation } from "@/lib/tree-layout";
+import { ViewMode } from "@/lib/time-charts";
+import { Locale } from "@/lib/i18n";
+import {
+  findNode,
+  findParent,
+  findPath,
+  normalizeRatios,
+  setChildRatio,
+  updateNode,
+} from "@/lib/tree";
 
 export interface FlowData {
   id: string;
@@ -8,39 +30,268 @@ export interface FlowData {
   ratio: number;
   children: FlowData[];
   isNew?: boolean;
+  // 最近一次拆解子环节时服务端的校验结果
+  checks?: DecompositionCheck[];
+  // 只在根节点上设置，各环节的绝对用时由比例逐级推算
+  timeBudget?: TimeBudget;
+  automation?: AutomationAssessment;
+  // 只在根节点上设置，生成时使用的输出语言，继续拆解时沿用
+  language?: Locale;
 }
 
 interface FlowState {
   nodes: Node[];
   edges: Edge[];
   flowData: FlowData | null;
+  modelConfig: ModelConfig | null;
+  // 正在重命名的节点
+  editingNodeId: string | null;
+  // 正在对比候选拆解方案的节点
+  regeneratingNodeId: string | null;
+  // 打开了自动展开面板的节点
+  autoExpandNodeId: string | null;
+  layoutOrientation: LayoutOrientation;
+  // 折叠的节点，其子树不在画布上显示
+  collapsedNodeIds: string[];
+  // 聚焦模式下作为画布根节点的节点
+  focusNodeId: string | null;
+  viewMode: ViewMode;
+  // 在图表中点选、需要在流程图中定位的节点
+  selectedNodeId: string | null;
+  // 正在进行 AI 提效评估的节点，放在 store 中以免悬停工具栏卸载后丢失请求状态
+  assessingNodeIds: string[];
+  // 最近一次被服务端拒绝的拆解请求，显示在画布上方
+  requestError: WorkflowErrorBody | null;
+  // 跳过服务端缓存，每次拆解都重新调用模型
+  bypassCache: boolean;
+  // 正在查看分享链接中的工作流程，不能拆分或修改
+  isReadOnly: boolean;
+  // 撤销 / 重做用的 FlowData 快照
+  past: (FlowData | null)[];
+  future: (FlowData | null)[];
+  // 大于 0 时正在进行的修改合并为一步撤销
+  historyGroupDepth: number;
   setNodes: (nodes: Node[]) => void;
   setEdges: (edges: Edge[]) => void;
   setFlowData: (data: FlowData) => void;
-  onNodesChange: (changes: any) => void;
-  onEdgesChange: (changes: any) => void;
-  onConnect: (connection: any) => void;
+  setModelConfig: (config: ModelConfig | null) => void;
+  setEditingNodeId: (nodeId: string | null) => void;
+  setRegeneratingNodeId: (nodeId: string | null) => void;
+  setAutoExpandNodeId: (nodeId: string | null) => void;
+  setLayoutOrientation: (orientation: LayoutOrientation) => void;
+  toggleCollapsed: (nodeId: string) => void;
+  setFocusNodeId: (nodeId: string | null) => void;
+  // 展开折叠的上级节点，必要时退出聚焦，让节点显示在画布上
+  revealNode: (nodeId: string) => void;
+  setViewMode: (mode: ViewMode) => void;
+  // 选中节点并切换回流程图，让节点显示在画布上；传入 null 取消选中
+  selectNode: (nodeId: string | null) => void;
+  setAssessing: (nodeId: string, assessing: boolean) => void;
+  setRequestError: (error: WorkflowErrorBody | null) => void;
+  setBypassCache: (bypass: boolean) => void;
+  onNodesChange: (changes: NodeChange[]) => void;
+  onEdgesChange: (changes: EdgeChange[]) => void;
   resetFlow: () => void;
+  // 载入另一份数据（切换项目、打开分享链接等），同时清空撤销历史
+  loadFlowData: (data: FlowData | null, readOnly?: boolean) => void;
+  undo: () => void;
+  redo: () => void;
+  beginHistoryGroup: () => void;
+  endHistoryGroup: () => void;
   updateFlowDataNode: (nodeId: string, children: FlowData[]) => void;
+  patchFlowDataNode: (
+    nodeId: string,
+    fields: Partial<Omit<FlowData, "id" | "children">>
+  ) => void;
+  renameNode: (nodeId: string, label: string) => void;
+  setNodeRatio: (nodeId: string, ratio: number) => void;
+  // 返回新节点的 id
+  insertSibling: (
+    nodeId: string,
+    position: "before" | "after",
+    label: string
+  ) => string | null;
+  deleteNode: (nodeId: string) => void;
+  moveNode: (nodeId: string, offset: -1 | 1) => void;
+  applyAutomation: (assessments: AutomationAssessments) => void;
+}
+
+// 最多保留的撤销步数
+const HISTORY_LIMIT = 100;
+
+// 更新 FlowData 并记录修改前的快照，分组进行中时快照已在分组开始时记录
+function withHistory(
+  state: FlowState,
+  next: FlowData | null
+): Partial<FlowState> {
+  if (state.historyGroupDepth > 0 || next === state.flowData) {
+    return { flowData: next };
+  }
+  return {
+    flowData: next,
+    past: [...state.past, state.flowData].slice(-HISTORY_LIMIT),
+    future: [],
+  };
+}
+
+// 分组内的修改可能生成内容相同的新对象（例如丢弃了流式结果），按内容比较
+function isSameFlowData(a: FlowData | null, b: FlowData | null): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+// 修改某个节点所在的同级列表，根节点没有同级时返回 null
+function updateSiblings(
+  root: FlowData,
+  nodeId: string,
+  update: (children: FlowData[], index: number) => FlowData[]
+): FlowData | null {
+  const parent = findParent(root, nodeId);
+  if (!parent) return null;
+  const index = parent.children.findIndex((child) => child.id === nodeId);
+  return updateNode(root, parent.id, (node) => ({
+    ...node,
+    children: update(node.children, index),
+  }));
 }
 
 export const useFlowStore = create<FlowState>((set, get) => ({
   nodes: [],
   edges: [],
   flowData: null,
+  modelConfig: null,
+  editingNodeId: null,
+  regeneratingNodeId: null,
+  autoExpandNodeId: null,
+  layoutOrientation: "top-down",
+  collapsedNodeIds: [],
+  focusNodeId: null,
+  viewMode: "graph",
+  selectedNodeId: null,
+  assessingNodeIds: [],
+  requestError: null,
+  bypassCache: false,
+  isReadOnly: false,
+  past: [],
+  future: [],
+  historyGroupDepth: 0,
   setNodes: (nodes) => set({ nodes }),
   setEdges: (edges) => set({ edges }),
-  setFlowData: (data) => set({ flowData: data }),
-  onNodesChange: (changes) => {
-    // 实现节点变化逻辑
+  setFlowData: (data) => set((state) => withHistory(state, data)),
+  setModelConfig: (config) => set({ modelConfig: config }),
+  setEditingNodeId: (nodeId) => set({ editingNodeId: nodeId }),
+  setRegeneratingNodeId: (nodeId) => set({ regeneratingNodeId: nodeId }),
+  setAutoExpandNodeId: (nodeId) => set({ autoExpandNodeId: nodeId }),
+  setLayoutOrientation: (orientation) =>
+    set({ layoutOrientation: orientation }),
+  toggleCollapsed: (nodeId) =>
+    set((state) => ({
+      collapsedNodeIds: state.collapsedNodeIds.includes(nodeId)
+        ? state.collapsedNodeIds.filter((id) => id !== nodeId)
+        : [...state.collapsedNodeIds, nodeId],
+    })),
+  setFocusNodeId: (nodeId) => set({ focusNodeId: nodeId }),
+  revealNode: (nodeId) => {
+    const { flowData, collapsedNodeIds, focusNodeId } = get();
+    if (!flowData) return;
+    const ancestors = findPath(flowData, nodeId)
+      .slice(0, -1)
+      .map((node) => node.id);
+    set({
+      collapsedNodeIds: collapsedNodeIds.filter(
+        (id) => !ancestors.includes(id)
+      ),
+      focusNodeId:
+        focusNodeId &&
+        (focusNodeId === nodeId || ancestors.includes(focusNodeId))
+          ? focusNodeId
+          : null,
+    });
   },
-  onEdgesChange: (changes) => {
-    // 实现边变化逻辑
+  setViewMode: (mode) => set({ viewMode: mode }),
+  selectNode: (nodeId) => {
+    if (!nodeId) {
+      set({ selectedNodeId: null });
+      return;
+    }
+    get().revealNode(nodeId);
+    set({ selectedNodeId: nodeId, viewMode: "graph" });
   },
-  onConnect: (connection) => {
-    // 实现连接逻辑
+  setAssessing: (nodeId, assessing) =>
+    set((state) => ({
+      assessingNodeIds: assessing
+        ? [...state.assessingNodeIds, nodeId]
+        : state.assessingNodeIds.filter((id) => id !== nodeId),
+    })),
+  setRequestError: (error) => set({ requestError: error }),
+  setBypassCache: (bypass) => set({ bypassCache: bypass }),
+  // 拖动、选中等画布内的变化，结构性修改通过下面的 FlowData 操作完成
+  onNodesChange: (changes) =>
+    set((state) => ({ nodes: applyNodeChanges(changes, state.nodes) })),
+  onEdgesChange: (changes) =>
+    set((state) => ({ edges: applyEdgeChanges(changes, state.edges) })),
+  resetFlow: () =>
+    set((state) => ({ nodes: [], edges: [], ...withHistory(state, null) })),
+  loadFlowData: (data, readOnly = false) =>
+    set({
+      nodes: [],
+      edges: [],
+      flowData: data,
+      past: [],
+      future: [],
+      regeneratingNodeId: null,
+      autoExpandNodeId: null,
+      collapsedNodeIds: [],
+      focusNodeId: null,
+      selectedNodeId: null,
+      requestError: null,
+      isReadOnly: readOnly,
+    }),
+  undo: () => {
+    const { past, future, flowData, historyGroupDepth } = get();
+    // 拆解进行中不允许撤销，避免与流式结果交错
+    if (past.length === 0 || historyGroupDepth > 0) return;
+    set({
+      flowData: past[past.length - 1],
+      past: past.slice(0, -1),
+      future: [flowData, ...future],
+    });
+  },
+  redo: () => {
+    const { past, future, flowData, historyGroupDepth } = get();
+    if (future.length === 0 || historyGroupDepth > 0) return;
+    set({
+      flowData: future[0],
+      past: [...past, flowData],
+      future: future.slice(1),
+    });
   },
-  resetFlow: () => set({ nodes: [], edges: [], flowData: null }),
+  beginHistoryGroup: () =>
+    set((state) => {
+      const historyGroupDepth = state.historyGroupDepth + 1;
+      // 只在最外层分组开始时记录一次快照，重做记录等分组结束确有修改时再清空
+      if (state.historyGroupDepth > 0) return { historyGroupDepth };
+      return {
+        past: [...state.past, state.flowData].slice(-HISTORY_LIMIT),
+        historyGroupDepth,
+      };
+    }),
+  endHistoryGroup: () =>
+    set((state) => {
+      const historyGroupDepth = Math.max(0, state.historyGroupDepth - 1);
+      if (historyGroupDepth > 0 || state.historyGroupDepth === 0) {
+        return { historyGroupDepth };
+      }
+      // 出错或丢弃结果后树没有变化，去掉分组开始时的快照，避免出现无效的撤销
+      const snapshot = state.past[state.past.length - 1];
+      if (isSameFlowData(snapshot, state.flowData)) {
+        return {
+          flowData: snapshot,
+          past: state.past.slice(0, -1),
+          historyGroupDepth,
+        };
+      }
+      return { future: [], historyGroupDepth };
+    }),
   updateFlowDataNode: (nodeId: string, children: FlowData[]) => {
     const updateNode = (data: FlowData): FlowData => {
       if (data.id === nodeId) {
@@ -52,8 +303,110 @@ export const useFlowStore = create<FlowState>((set, get) => ({
       };
     };
 
-    set((state) => ({
-      flowData: state.flowData ? updateNode(state.flowData) : null,
+    set((state) =>
+      withHistory(state, state.flowData ? updateNode(state.flowData) : null)
+    );
+  },
+  patchFlowDataNode: (nodeId, fields) => {
+    const patchNode = (data: FlowData): FlowData => {
+      if (data.id === nodeId) {
+        return { ...data, ...fields };
+      }
+      return {
+        ...data,
+        children: data.children.map(patchNode),
+      };
+    };
+
+    set((state) =>
+      withHistory(state, state.flowData ? patchNode(state.flowData) : null)
+    );
+  },
+  renameNode: (nodeId, label) => {
+    const { flowData } = get();
+    const trimmed = label.trim();
+    if (!flowData || !trimmed) return;
+    // 名称没有变化时不记录撤销，也不清空重做
+    if (findNode(flowData, nodeId)?.label === trimmed) return;
+    const next = updateNode(flowData, nodeId, (node) => ({
+      ...node,
+      label: trimmed,
     }));
+    if (next !== flowData) set((state) => withHistory(state, next));
+  },
+  setNodeRatio: (nodeId, ratio) => {
+    const { flowData } = get();
+    if (!flowData) return;
+    const next = updateSiblings(flowData, nodeId, (children, index) =>
+      setChildRatio(children, index, ratio)
+    );
+    if (next) set((state) => withHistory(state, next));
+  },
+  insertSibling: (nodeId, position, label) => {
+    const { flowData } = get();
+    if (!flowData) return null;
+    const id = `node-${Math.random()}`;
+    const next = updateSiblings(flowData, nodeId, (children, index) => {
+      const count = children.length + 1;
+      // 新环节占 1/n，其余环节按原比例缩小
+      const sibling: FlowData = {
+        id,
+        label,
+        depth: children[index].depth,
+        ratio: 1 / count,
+        children: [],
+      };
+      const scaled = children.map((child) => ({
+        ...child,
+        ratio: (child.ratio * (count - 1)) / count,
+      }));
+      const at = position === "before" ? index : index + 1;
+      return [...scaled.slice(0, at), sibling, ...scaled.slice(at)];
+    });
+    if (!next) return null;
+    set((state) => withHistory(state, next));
+    return id;
+  },
+  deleteNode: (nodeId) => {
+    const { flowData } = get();
+    if (!flowData) return;
+    const next = updateSiblings(flowData, nodeId, (children, index) => {
+      const rest = children.filter((_, i) => i !== index);
+      return rest.length > 0 ? normalizeRatios(rest) : rest;
+    });
+    if (next) set((state) => withHistory(state, next));
+  },
+  moveNode: (nodeId, offset) => {
+    const { flowData } = get();
+    if (!flowData) return;
+    const parent = findParent(flowData, nodeId);
+    const index = parent?.children.findIndex((child) => child.id === nodeId);
+    // 已经在最前或最后时不移动，也不记录撤销
+    if (
+      !parent ||
+      index === undefined ||
+      index + offset < 0 ||
+      index + offset >= parent.children.length
+    ) {
+      return;
+    }
+    const next = updateSiblings(flowData, nodeId, (children, index) => {
+      const target = index + offset;
+      const result = [...children];
+      [result[index], result[target]] = [result[target], result[index]];
+      return result;
+    });
+    if (next) set((state) => withHistory(state, next));
+  },
+  applyAutomation: (assessments) => {
+    const apply = (data: FlowData): FlowData => ({
+      ...data,
+      ...(assessments[data.id] && { automation: assessments[data.id] }),
+      children: data.children.map(apply),
+    });
+
+    set((state) =>
+      withHistory(state, state.flowData ? apply(state.flowData) : null)
+    );
   },
 }));
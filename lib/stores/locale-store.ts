@@ -0,0 +1,37 @@
+import { useCallback } from "react";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import {
+  DEFAULT_LOCALE,
+  Locale,
+  MessageKey,
+  translate,
+  TranslateParams,
+} from "@/lib/i18n";
+
+interface LocaleState {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+}
+
+// 选择的语言保存在 localStorage 中；服务端渲染时使用默认语言，
+// 挂载后再调用 rehydrate 读取，避免水合不一致
+export const useLocaleStore = create<LocaleState>()(
+  persist(
+    (set) => ({
+      locale: DEFAULT_LOCALE,
+      setLocale: (locale) => set({ locale }),
+    }),
+    { name: "pyramid-model-locale", skipHydration: true }
+  )
+);
+
+export function useTranslation() {
+  const locale = useLocaleStore((state) => state.locale);
+  const t = useCallback(
+    (key: MessageKey, params?: TranslateParams) =>
+      translate(locale, key, params),
+    [locale]
+  );
+  return { locale, t };
+}
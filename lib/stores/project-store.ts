@@ -0,0 +1,224 @@
+import { create } from "zustand";
+import { useFlowStore, FlowData } from "@/lib/stores/flow-store";
+import {
+  deleteProject as removeProject,
+  getProject,
+  listProjects,
+  ProjectSummary,
+  saveProject,
+} from "@/lib/storage/project-db";
+import { CURRENT_SCHEMA_VERSION } from "@/lib/storage/migrations";
+import { useLocaleStore } from "@/lib/stores/locale-store";
+import { LOCALES, MessageKey, translate, TranslateParams } from "@/lib/i18n";
+
+const AUTOSAVE_DELAY = 500;
+
+interface ProjectState {
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  // 当前项目选用的提示词模板，为空时使用默认模板
+  templateId: string | null;
+  isReady: boolean;
+  // 传入分享链接中的工作流程时以只读方式打开它，而不是最近修改的项目
+  initialize: (sharedFlowData?: FlowData | null) => Promise<void>;
+  // 未指定模板时沿用当前项目的模板
+  createProject: (
+    name?: string,
+    flowData?: FlowData | null,
+    templateId?: string | null
+  ) => Promise<void>;
+  openProject: (id: string) => Promise<void>;
+  // 只读查看的工作流程不属于任何项目，也不会自动保存
+  openSharedFlow: (flowData: FlowData) => Promise<void>;
+  renameProject: (id: string, name: string) => Promise<void>;
+  duplicateProject: (id: string) => Promise<void>;
+  deleteProject: (id: string) => Promise<void>;
+  setProjectTemplate: (templateId: string | null) => Promise<void>;
+}
+
+// 最近一次从存储加载或写入的数据，用于避免打开项目时触发无意义的保存
+let lastSavedFlowData: FlowData | null = null;
+let autosaveTimer: ReturnType<typeof setTimeout> | null = null;
+let isLoadingProject = false;
+let initializePromise: Promise<void> | null = null;
+
+// 新项目与副本的名称使用当前界面语言
+function translateName(key: MessageKey, params?: TranslateParams) {
+  return translate(useLocaleStore.getState().locale, key, params);
+}
+
+// 切换语言前创建的项目使用的是另一种语言的默认名称
+function isUntitledProjectName(name: string) {
+  return LOCALES.some(
+    (locale) => translate(locale, "project.untitled") === name
+  );
+}
+
+function createProjectId() {
+  return `project-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// 去掉只用于动画的临时标记
+function stripTransientFields(data: FlowData): FlowData {
+  const result = { ...data, children: data.children.map(stripTransientFields) };
+  delete result.isNew;
+  return result;
+}
+
+// 切换到指定项目的数据，不触发自动保存
+function loadIntoFlowStore(flowData: FlowData | null, readOnly = false) {
+  isLoadingProject = true;
+  useFlowStore.getState().loadFlowData(flowData, readOnly);
+  lastSavedFlowData = useFlowStore.getState().flowData;
+  isLoadingProject = false;
+}
+
+export const useProjectStore = create<ProjectState>((set, get) => ({
+  projects: [],
+  currentProjectId: null,
+  templateId: null,
+  isReady: false,
+  initialize: (sharedFlowData = null) => {
+    // 开发模式下 effect 会执行两次，共用同一次初始化
+    initializePromise ??= (async () => {
+      const projects = await listProjects();
+      set({ projects, isReady: true });
+      // 优先打开分享链接，其次是最近修改的项目，都没有时新建一个
+      if (sharedFlowData) {
+        await get().openSharedFlow(sharedFlowData);
+      } else if (projects.length > 0) {
+        await get().openProject(projects[0].id);
+      } else {
+        await get().createProject();
+      }
+    })();
+    return initializePromise;
+  },
+  createProject: async (
+    name = translateName("project.untitled"),
+    flowData = null,
+    templateId = get().templateId
+  ) => {
+    await flushAutosave();
+    const now = Date.now();
+    const project = {
+      id: createProjectId(),
+      name,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      createdAt: now,
+      updatedAt: now,
+      templateId,
+      flowData: flowData ? stripTransientFields(flowData) : null,
+    };
+    await saveProject(project);
+    set({
+      currentProjectId: project.id,
+      templateId,
+      projects: await listProjects(),
+    });
+    loadIntoFlowStore(project.flowData);
+  },
+  openProject: async (id) => {
+    await flushAutosave();
+    const project = await getProject(id);
+    if (!project) return;
+    set({ currentProjectId: id, templateId: project.templateId ?? null });
+    loadIntoFlowStore(project.flowData);
+  },
+  openSharedFlow: async (flowData) => {
+    await flushAutosave();
+    set({ currentProjectId: null });
+    loadIntoFlowStore(flowData, true);
+  },
+  renameProject: async (id, name) => {
+    const project = await getProject(id);
+    if (!project || !name.trim()) return;
+    await saveProject({ ...project, name: name.trim(), updatedAt: Date.now() });
+    set({ projects: await listProjects() });
+  },
+  duplicateProject: async (id) => {
+    const project = await getProject(id);
+    if (!project) return;
+    await get().createProject(
+      translateName("common.copyName", { name: project.name }),
+      project.flowData,
+      project.templateId ?? null
+    );
+  },
+  deleteProject: async (id) => {
+    await removeProject(id);
+    const projects = await listProjects();
+    set({ projects });
+    if (get().currentProjectId !== id) return;
+    if (projects.length > 0) {
+      await get().openProject(projects[0].id);
+    } else {
+      await get().createProject();
+    }
+  },
+  setProjectTemplate: async (templateId) => {
+    await flushAutosave();
+    set({ templateId });
+    const { currentProjectId } = get();
+    const project = currentProjectId
+      ? await getProject(currentProjectId)
+      : null;
+    if (!project) return;
+    await saveProject({ ...project, templateId, updatedAt: Date.now() });
+    set({ projects: await listProjects() });
+  },
+}));
+
+async function saveCurrentProject(flowData: FlowData | null) {
+  const { currentProjectId } = useProjectStore.getState();
+  if (!currentProjectId) return;
+  const project = await getProject(currentProjectId);
+  if (!project) return;
+
+  // 未命名的项目使用根节点的名称
+  const name =
+    isUntitledProjectName(project.name) && flowData
+      ? flowData.label
+      : project.name;
+  await saveProject({
+    ...project,
+    name,
+    flowData: flowData ? stripTransientFields(flowData) : null,
+    updatedAt: Date.now(),
+  });
+  useProjectStore.setState({ projects: await listProjects() });
+}
+
+// 切换项目前立即写入尚未保存的修改
+async function flushAutosave() {
+  if (!autosaveTimer) return;
+  clearTimeout(autosaveTimer);
+  autosaveTimer = null;
+  const { flowData } = useFlowStore.getState();
+  lastSavedFlowData = flowData;
+  await saveCurrentProject(flowData);
+}
+
+// 监听 flowData 的每次变化并延迟写入 IndexedDB，返回取消监听的函数
+export function startAutosave(): () => void {
+  const unsubscribe = useFlowStore.subscribe((state, prevState) => {
+    if (state.flowData === prevState.flowData) return;
+    if (isLoadingProject || state.flowData === lastSavedFlowData) return;
+    if (!useProjectStore.getState().isReady) return;
+
+    if (autosaveTimer) clearTimeout(autosaveTimer);
+    autosaveTimer = setTimeout(() => {
+      autosaveTimer = null;
+      const { flowData } = useFlowStore.getState();
+      lastSavedFlowData = flowData;
+      saveCurrentProject(flowData).catch((error) =>
+        console.error("Error saving project:", error)
+      );
+    }, AUTOSAVE_DELAY);
+  });
+
+  return () => {
+    unsubscribe();
+    if (autosaveTimer) clearTimeout(autosaveTimer);
+  };
+}
@@ -0,0 +1,60 @@
+import { create } from "zustand";
+import {
+  BUILT_IN_PROMPT_TEMPLATES,
+  DEFAULT_PROMPT_TEMPLATE_ID,
+  getBuiltInPromptTemplate,
+  PromptTemplateData,
+} from "@/lib/prompt-templates";
+import {
+  deleteTemplate as removeTemplate,
+  listTemplates,
+  saveTemplate as storeTemplate,
+} from "@/lib/storage/template-db";
+import { useProjectStore } from "@/lib/stores/project-store";
+
+interface TemplateState {
+  // 用户保存的自定义模板，内置模板见 BUILT_IN_PROMPT_TEMPLATES
+  customTemplates: PromptTemplateData[];
+  loadTemplates: () => Promise<void>;
+  saveTemplate: (template: PromptTemplateData) => Promise<void>;
+  deleteTemplate: (id: string) => Promise<void>;
+}
+
+export function createTemplateId() {
+  return `template-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export const useTemplateStore = create<TemplateState>((set) => ({
+  customTemplates: [],
+  loadTemplates: async () => {
+    set({ customTemplates: await listTemplates() });
+  },
+  saveTemplate: async (template) => {
+    await storeTemplate(template);
+    set({ customTemplates: await listTemplates() });
+  },
+  deleteTemplate: async (id) => {
+    await removeTemplate(id);
+    set({ customTemplates: await listTemplates() });
+  },
+}));
+
+export function listPromptTemplates(): PromptTemplateData[] {
+  return [
+    ...BUILT_IN_PROMPT_TEMPLATES,
+    ...useTemplateStore.getState().customTemplates,
+  ];
+}
+
+// 按 id 查找模板，找不到（例如已删除）时使用默认模板
+export function getPromptTemplate(id?: string | null): PromptTemplateData {
+  return (
+    listPromptTemplates().find((template) => template.id === id) ??
+    getBuiltInPromptTemplate(DEFAULT_PROMPT_TEMPLATE_ID)!
+  );
+}
+
+// 当前项目选用的模板
+export function getActivePromptTemplate(): PromptTemplateData {
+  return getPromptTemplate(useProjectStore.getState().templateId);
+}
@@ -0,0 +1,58 @@
+import { DEFAULT_LOCALE, Locale, translate } from "@/lib/i18n";
+
+export type TimePeriod = "day" | "week" | "month";
+
+// 根节点的总时间预算，例如每周 40 小时
+export interface TimeBudget {
+  hours: number;
+  period: TimePeriod;
+}
+
+export const TIME_PERIODS: TimePeriod[] = ["day", "week", "month"];
+
+// 每个周期最多的小时数，用于校验输入
+export const MAX_BUDGET_HOURS: Record<TimePeriod, number> = {
+  day: 24,
+  week: 24 * 7,
+  month: 24 * 31,
+};
+
+export function isValidTimeBudget(budget: TimeBudget): boolean {
+  return (
+    Number.isFinite(budget.hours) &&
+    budget.hours > 0 &&
+    budget.hours <= MAX_BUDGET_HOURS[budget.period]
+  );
+}
+
+// 不足 1 小时时按分钟显示
+export function formatHours(
+  hours: number,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  if (hours < 1) {
+    return translate(locale, "duration.minutes", {
+      value: Math.round(hours * 60),
+    });
+  }
+  return translate(locale, "duration.hours", {
+    value: Math.round(hours * 10) / 10,
+  });
+}
+
+// 比例显示为保留一位小数的百分比
+export function formatPercent(share: number): string {
+  return `${Math.round(share * 1000) / 10}%`;
+}
+
+// 节点的绝对用时，即预算乘以占根节点的比例
+export function formatDuration(
+  budget: TimeBudget,
+  shareOfRoot: number,
+  locale: Locale = DEFAULT_LOCALE
+) {
+  return `${formatHours(budget.hours * shareOfRoot, locale)}/${translate(
+    locale,
+    `duration.${budget.period}`
+  )}`;
+}
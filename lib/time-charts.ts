@@ -0,0 +1,264 @@
+import { FlowData } from "@/lib/stores/flow-store";
+
+// 按用时占比绘制的几种图表的几何计算，尺寸都以占根节点总用时的比例为准
+
+export type TimeChartKind = "icicle" | "treemap" | "sunburst";
+
+// 主画布的视图：节点流程图或按用时占比绘制的图表
+export type ViewMode = "graph" | TimeChartKind;
+
+interface ChartItem {
+  node: FlowData;
+  // 占根节点总用时的比例，与流程图中的“占总时长”一致
+  share: number;
+  depth: number;
+  // 所属的第一级分支序号，根节点为 -1，用于配色
+  branch: number;
+}
+
+export interface ChartRect extends ChartItem {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ChartArc extends ChartItem {
+  innerRadius: number;
+  outerRadius: number;
+  startAngle: number;
+  endAngle: number;
+}
+
+// 小于该尺寸的区域不再继续细分
+const MIN_REGION_SIZE = 2;
+const TREEMAP_HEADER = 18;
+const TREEMAP_PADDING = 2;
+
+// 子节点在父节点内占的面积，比例之和不为 1 时按比例缩放，保证子区域正好铺满父区域
+function childShares(node: FlowData): number[] {
+  const total = node.children.reduce((sum, child) => sum + child.ratio, 0);
+  return node.children.map((child) =>
+    total > 0 ? child.ratio / total : 1 / node.children.length
+  );
+}
+
+function treeHeight(node: FlowData): number {
+  return 1 + Math.max(0, ...node.children.map(treeHeight));
+}
+
+// 冰柱图 / 金字塔：每层一行，根节点在最上方占满整行，子节点按份额横向排列
+export function layoutIcicle(
+  root: FlowData,
+  width: number,
+  height: number
+): ChartRect[] {
+  const rowHeight = height / treeHeight(root);
+  const rects: ChartRect[] = [];
+  const visit = (
+    node: FlowData,
+    x: number,
+    rectWidth: number,
+    depth: number,
+    share: number,
+    branch: number
+  ) => {
+    rects.push({
+      node,
+      share,
+      depth,
+      branch,
+      x,
+      y: depth * rowHeight,
+      width: rectWidth,
+      height: rowHeight,
+    });
+    if (rectWidth < MIN_REGION_SIZE) return;
+    let offset = x;
+    childShares(node).forEach((part, index) => {
+      const child = node.children[index];
+      visit(
+        child,
+        offset,
+        rectWidth * part,
+        depth + 1,
+        share * child.ratio,
+        depth === 0 ? index : branch
+      );
+      offset += rectWidth * part;
+    });
+  };
+  visit(root, 0, width, 0, 1, -1);
+  return rects;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 一行中面积最大与最小的矩形的最差长宽比，越接近 1 越好
+function worstRatio(areas: number[], side: number): number {
+  const total = areas.reduce((sum, area) => sum + area, 0);
+  const max = Math.max(...areas);
+  const min = Math.min(...areas);
+  return Math.max(
+    (side * side * max) / (total * total),
+    (total * total) / (side * side * min)
+  );
+}
+
+// Squarified 矩形树图：按面积从大到小逐行放置，使每个矩形尽量接近正方形
+function squarify(areas: number[], box: Box): Box[] {
+  const order = areas
+    .map((area, index) => ({ area, index }))
+    .sort((a, b) => b.area - a.area);
+  const result: Box[] = new Array(areas.length);
+  let rest = { ...box };
+  let row: typeof order = [];
+
+  const layoutRow = () => {
+    const rowArea = row.reduce((sum, item) => sum + item.area, 0);
+    const horizontal = rest.width >= rest.height;
+    const side = horizontal ? rest.height : rest.width;
+    const thickness = side > 0 ? rowArea / side : 0;
+    let offset = 0;
+    for (const item of row) {
+      const length = thickness > 0 ? item.area / thickness : 0;
+      result[item.index] = horizontal
+        ? { x: rest.x, y: rest.y + offset, width: thickness, height: length }
+        : { x: rest.x + offset, y: rest.y, width: length, height: thickness };
+      offset += length;
+    }
+    rest = horizontal
+      ? { ...rest, x: rest.x + thickness, width: rest.width - thickness }
+      : { ...rest, y: rest.y + thickness, height: rest.height - thickness };
+    row = [];
+  };
+
+  for (const item of order) {
+    const side = Math.min(rest.width, rest.height);
+    const current = row.map((entry) => entry.area);
+    if (
+      row.length === 0 ||
+      worstRatio([...current, item.area], side) <= worstRatio(current, side)
+    ) {
+      row.push(item);
+    } else {
+      layoutRow();
+      row.push(item);
+    }
+  }
+  if (row.length > 0) layoutRow();
+  return result;
+}
+
+// 矩形树图：有子环节的区域顶部留出标题栏，子环节在剩余空间内按份额排列
+export function layoutTreemap(
+  root: FlowData,
+  width: number,
+  height: number
+): ChartRect[] {
+  const rects: ChartRect[] = [];
+  const visit = (
+    node: FlowData,
+    box: Box,
+    depth: number,
+    share: number,
+    branch: number
+  ) => {
+    rects.push({ node, share, depth, branch, ...box });
+    const inner: Box = {
+      x: box.x + TREEMAP_PADDING,
+      y: box.y + TREEMAP_HEADER,
+      width: box.width - TREEMAP_PADDING * 2,
+      height: box.height - TREEMAP_HEADER - TREEMAP_PADDING,
+    };
+    if (
+      node.children.length === 0 ||
+      inner.width < MIN_REGION_SIZE * 4 ||
+      inner.height < MIN_REGION_SIZE * 4
+    ) {
+      return;
+    }
+    const parts = childShares(node);
+    const boxes = squarify(
+      parts.map((part) => part * inner.width * inner.height),
+      inner
+    );
+    node.children.forEach((child, index) =>
+      visit(
+        child,
+        boxes[index],
+        depth + 1,
+        share * child.ratio,
+        depth === 0 ? index : branch
+      )
+    );
+  };
+  visit(root, { x: 0, y: 0, width, height }, 0, 1, -1);
+  return rects;
+}
+
+// 旭日图：根节点在圆心，每层一圈，子环节按份额分割父环节的角度
+export function layoutSunburst(root: FlowData, radius: number): ChartArc[] {
+  const ringWidth = radius / treeHeight(root);
+  const arcs: ChartArc[] = [];
+  const visit = (
+    node: FlowData,
+    startAngle: number,
+    endAngle: number,
+    depth: number,
+    share: number,
+    branch: number
+  ) => {
+    arcs.push({
+      node,
+      share,
+      depth,
+      branch,
+      innerRadius: depth * ringWidth,
+      outerRadius: (depth + 1) * ringWidth,
+      startAngle,
+      endAngle,
+    });
+    // 外圈弧长过小时不再细分
+    if ((endAngle - startAngle) * (depth + 1) * ringWidth < MIN_REGION_SIZE) {
+      return;
+    }
+    let angle = startAngle;
+    childShares(node).forEach((part, index) => {
+      const span = (endAngle - startAngle) * part;
+      visit(
+        node.children[index],
+        angle,
+        angle + span,
+        depth + 1,
+        share * node.children[index].ratio,
+        depth === 0 ? index : branch
+      );
+      angle += span;
+    });
+  };
+  visit(root, 0, Math.PI * 2, 0, 1, -1);
+  return arcs;
+}
+
+// 圆环扇区的 SVG 路径，圆心在原点，角度从 12 点方向顺时针计算
+export function arcPath(arc: ChartArc): string {
+  const { innerRadius: r0, outerRadius: r1 } = arc;
+  // 整圈无法用一段弧表示，略微留出缺口
+  const end = Math.min(arc.endAngle, arc.startAngle + Math.PI * 2 - 1e-4);
+  const point = (radius: number, angle: number) =>
+    `${radius * Math.sin(angle)} ${-radius * Math.cos(angle)}`;
+  const largeArc = end - arc.startAngle > Math.PI ? 1 : 0;
+  return [
+    `M ${point(r1, arc.startAngle)}`,
+    `A ${r1} ${r1} 0 ${largeArc} 1 ${point(r1, end)}`,
+    `L ${point(r0, end)}`,
+    r0 > 0 ? `A ${r0} ${r0} 0 ${largeArc} 0 ${point(r0, arc.startAngle)}` : "",
+    "Z",
+  ].join(" ");
+}
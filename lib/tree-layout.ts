@@ -0,0 +1,153 @@
+import { FlowData } from "@/lib/stores/flow-store";
+
+export type LayoutOrientation = "top-down" | "left-right" | "radial";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// 节点卡片的大致尺寸，用于计算间距
+export const LAYOUT_NODE_WIDTH = 200;
+export const LAYOUT_NODE_HEIGHT = 170;
+
+interface AxisSpacing {
+  // 同级节点在排列方向上占的长度与间隔
+  breadth: number;
+  gap: number;
+  // 相邻层级之间的距离
+  level: number;
+}
+
+const SPACING: Record<Exclude<LayoutOrientation, "radial">, AxisSpacing> = {
+  "top-down": { breadth: LAYOUT_NODE_WIDTH, gap: 50, level: 220 },
+  "left-right": { breadth: LAYOUT_NODE_HEIGHT, gap: 30, level: 300 },
+};
+
+const RADIAL_LEVEL = 320;
+
+// 子树的轮廓：每一层最左和最右的边界，相对于子树根节点的中心
+interface Contour {
+  left: number[];
+  right: number[];
+}
+
+// Reingold–Tilford 式的整齐树布局：自底向上排列子树，
+// 每个子树尽量向左靠拢但不与左边的子树在任何一层重叠，父节点位于首尾子节点的正中。
+// 返回各节点中心在排列方向上的坐标
+function layoutBreadth(root: FlowData, spacing: AxisSpacing) {
+  // 节点相对于父节点的偏移
+  const offsets = new Map<string, number>();
+  const half = spacing.breadth / 2;
+
+  const place = (node: FlowData): Contour => {
+    if (node.children.length === 0) return { left: [-half], right: [half] };
+
+    const contours = node.children.map(place);
+    const childOffsets = [0];
+    const right = [...contours[0].right];
+    for (let i = 1; i < contours.length; i++) {
+      const { left } = contours[i];
+      let shift = -Infinity;
+      for (let d = 0; d < Math.min(left.length, right.length); d++) {
+        shift = Math.max(shift, right[d] - left[d] + spacing.gap);
+      }
+      childOffsets.push(shift);
+      contours[i].right.forEach((value, d) => {
+        right[d] = value + shift;
+      });
+    }
+
+    const center =
+      (childOffsets[0] + childOffsets[childOffsets.length - 1]) / 2;
+    const contour: Contour = { left: [-half], right: [half] };
+    node.children.forEach((child, i) => {
+      const offset = childOffsets[i] - center;
+      offsets.set(child.id, offset);
+      contours[i].left.forEach((value, d) => {
+        const current = contour.left[d + 1];
+        contour.left[d + 1] =
+          current === undefined
+            ? value + offset
+            : Math.min(current, value + offset);
+      });
+      contours[i].right.forEach((value, d) => {
+        const current = contour.right[d + 1];
+        contour.right[d + 1] =
+          current === undefined
+            ? value + offset
+            : Math.max(current, value + offset);
+      });
+    });
+    return contour;
+  };
+
+  place(root);
+
+  const positions = new Map<string, { breadth: number; level: number }>();
+  const assign = (node: FlowData, breadth: number, level: number) => {
+    positions.set(node.id, { breadth, level });
+    node.children.forEach((child) =>
+      assign(child, breadth + (offsets.get(child.id) ?? 0), level + 1)
+    );
+  };
+  assign(root, 0, 0);
+  return positions;
+}
+
+// 计算各节点左上角的位置，根节点位于原点附近
+export function computeTreeLayout(
+  root: FlowData,
+  orientation: LayoutOrientation
+): Map<string, Point> {
+  const result = new Map<string, Point>();
+
+  if (orientation === "radial") {
+    // 先按自上而下排列，再把横向位置映射为角度、层级映射为半径
+    const positions = layoutBreadth(root, SPACING["top-down"]);
+    const values = Array.from(positions.values()).map((item) => item.breadth);
+    const min = Math.min(...values);
+    const span =
+      Math.max(...values) - min + LAYOUT_NODE_WIDTH + SPACING["top-down"].gap;
+    positions.forEach(({ breadth, level }, id) => {
+      const angle = ((breadth - min) / span) * 2 * Math.PI - Math.PI / 2;
+      const radius = level * RADIAL_LEVEL;
+      result.set(id, {
+        x: radius * Math.cos(angle) - LAYOUT_NODE_WIDTH / 2,
+        y: radius * Math.sin(angle) - LAYOUT_NODE_HEIGHT / 2,
+      });
+    });
+    return result;
+  }
+
+  const spacing = SPACING[orientation];
+  layoutBreadth(root, spacing).forEach(({ breadth, level }, id) => {
+    result.set(
+      id,
+      orientation === "top-down"
+        ? { x: breadth - LAYOUT_NODE_WIDTH / 2, y: level * spacing.level }
+        : { x: level * spacing.level, y: breadth - LAYOUT_NODE_HEIGHT / 2 }
+    );
+  });
+  return result;
+}
+
+// 平移新布局，让锚点节点留在上一次布局中的位置，流式添加子节点时画面不会跳动
+export function anchorLayout(
+  layout: Map<string, Point>,
+  previous: Map<string, Point>,
+  anchorId: string | null
+): Map<string, Point> {
+  const before = anchorId ? previous.get(anchorId) : undefined;
+  const after = anchorId ? layout.get(anchorId) : undefined;
+  if (!before || !after) return layout;
+  const dx = before.x - after.x;
+  const dy = before.y - after.y;
+  if (dx === 0 && dy === 0) return layout;
+
+  const result = new Map<string, Point>();
+  layout.forEach((point, id) => {
+    result.set(id, { x: point.x + dx, y: point.y + dy });
+  });
+  return result;
+}
@@ -0,0 +1,122 @@
+import { FlowData } from "@/lib/stores/flow-store";
+
+export interface TreeVisit {
+  node: FlowData;
+  // 从根节点到当前节点的名称
+  path: string[];
+  parent: FlowData | null;
+  // 占根节点总用时的比例，即路径上各级比例的乘积
+  shareOfRoot: number;
+}
+
+// 深度优先遍历，先访问父节点再访问子节点
+export function walkTree(
+  root: FlowData,
+  visit: (item: TreeVisit) => void
+): void {
+  const walk = (
+    node: FlowData,
+    path: string[],
+    parent: FlowData | null,
+    shareOfRoot: number
+  ) => {
+    const currentPath = [...path, node.label];
+    visit({ node, path: currentPath, parent, shareOfRoot });
+    node.children.forEach((child) =>
+      walk(child, currentPath, node, shareOfRoot * child.ratio)
+    );
+  };
+  walk(root, [], null, 1);
+}
+
+export function findNode(root: FlowData, nodeId: string): FlowData | null {
+  if (root.id === nodeId) return root;
+  for (const child of root.children) {
+    const result = findNode(child, nodeId);
+    if (result) return result;
+  }
+  return null;
+}
+
+export function findParent(root: FlowData, nodeId: string): FlowData | null {
+  for (const child of root.children) {
+    if (child.id === nodeId) return root;
+    const result = findParent(child, nodeId);
+    if (result) return result;
+  }
+  return null;
+}
+
+// 返回替换了指定节点的新树，未命中时原样返回
+export function updateNode(
+  root: FlowData,
+  nodeId: string,
+  update: (node: FlowData) => FlowData
+): FlowData {
+  if (root.id === nodeId) return update(root);
+  let changed = false;
+  const children = root.children.map((child) => {
+    const next = updateNode(child, nodeId, update);
+    if (next !== child) changed = true;
+    return next;
+  });
+  return changed ? { ...root, children } : root;
+}
+
+// 让同级比例之和为 1，全部为 0 时平分
+export function normalizeRatios(children: FlowData[]): FlowData[] {
+  const total = children.reduce((sum, child) => sum + child.ratio, 0);
+  return children.map((child) => ({
+    ...child,
+    ratio: total > 0 ? child.ratio / total : 1 / children.length,
+  }));
+}
+
+// 固定某个子节点的比例，其余子节点按原有比例分配剩余部分
+export function setChildRatio(
+  children: FlowData[],
+  index: number,
+  ratio: number
+): FlowData[] {
+  if (children.length === 1) return [{ ...children[0], ratio: 1 }];
+  const fixed = Math.min(1, Math.max(0, ratio));
+  const othersTotal = children.reduce(
+    (sum, child, i) => (i === index ? sum : sum + child.ratio),
+    0
+  );
+  return children.map((child, i) => {
+    if (i === index) return { ...child, ratio: fixed };
+    const share =
+      othersTotal > 0 ? child.ratio / othersTotal : 1 / (children.length - 1);
+    return { ...child, ratio: (1 - fixed) * share };
+  });
+}
+
+// 从根节点到指定节点（含）的路径，未找到时返回空数组
+export function findPath(root: FlowData, nodeId: string): FlowData[] {
+  if (root.id === nodeId) return [root];
+  for (const child of root.children) {
+    const path = findPath(child, nodeId);
+    if (path.length > 0) return [root, ...path];
+  }
+  return [];
+}
+
+export function countDescendants(node: FlowData): number {
+  return node.children.reduce(
+    (sum, child) => sum + 1 + countDescendants(child),
+    0
+  );
+}
+
+// 去掉折叠节点下的子树，用于布局和渲染
+export function pruneCollapsed(
+  root: FlowData,
+  collapsedIds: Set<string>
+): FlowData {
+  if (collapsedIds.has(root.id)) return { ...root, children: [] };
+  return {
+    ...root,
+    children: root.children.map((child) => pruneCollapsed(child, collapsedIds)),
+  };
+}
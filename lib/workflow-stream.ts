@@ -0,0 +1,159 @@
+// /api/workflow 与 decomposeWorkflow 之间的流式协议（NDJSON，每行一个事件）
+
+import { Locale, translate } from "@/lib/i18n";
+
+export const WORKFLOW_STREAM_CONTENT_TYPE = "application/x-ndjson";
+
+export interface WorkflowStep {
+  text: string;
+  ratio: number;
+}
+
+export interface WorkflowUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export type DecompositionCheckId = "ratio-sum" | "duplicates" | "step-count";
+
+// 与树中已有环节或前面的同级环节重名的环节
+export interface DuplicateStep {
+  text: string;
+  match: string;
+  sibling: boolean;
+}
+
+// 服务端对一次拆解结果的校验项，只包含数据，说明文字见 describeCheck
+export type DecompositionCheck =
+  | { id: "ratio-sum"; passed: boolean; sum: number }
+  | { id: "duplicates"; passed: boolean; duplicates: DuplicateStep[] }
+  | {
+      id: "step-count";
+      passed: boolean;
+      count: number;
+      min: number;
+      max: number;
+    };
+
+// 按指定语言生成校验项的说明
+export function describeCheck(
+  check: DecompositionCheck,
+  locale: Locale
+): string {
+  switch (check.id) {
+    case "ratio-sum":
+      return check.passed
+        ? translate(locale, "checks.ratio-sum.passed")
+        : translate(locale, "checks.ratio-sum.failed", {
+            sum: check.sum.toFixed(2),
+          });
+    case "duplicates":
+      if (check.passed) return translate(locale, "checks.duplicates.passed");
+      return check.duplicates
+        .map((duplicate) =>
+          translate(
+            locale,
+            duplicate.sibling
+              ? "checks.duplicates.sibling"
+              : "checks.duplicates.existing",
+            { step: duplicate.text, match: duplicate.match }
+          )
+        )
+        .join(translate(locale, "checks.duplicates.separator"));
+    case "step-count":
+      return check.passed
+        ? translate(locale, "checks.step-count.passed", { count: check.count })
+        : translate(locale, "checks.step-count.failed", {
+            count: check.count,
+            min: check.min,
+            max: check.max,
+          });
+  }
+}
+
+export type WorkflowStreamEvent =
+  // 一个已经完整生成的子环节
+  | { type: "step"; index: number; step: WorkflowStep }
+  // 出错后服务端会立即结束流，message 为原始错误信息
+  | { type: "error"; code: WorkflowStreamErrorCode; message: string }
+  | { type: "usage"; usage: WorkflowUsage }
+  // 校验未通过，服务端将重新生成，客户端应丢弃本轮已收到的环节
+  | { type: "retry"; attempt: number; violations: string[] }
+  | { type: "validation"; checks: DecompositionCheck[] }
+  // cached 表示结果来自缓存，没有调用模型
+  | { type: "done"; count: number; cached?: boolean };
+
+export function encodeWorkflowEvent(event: WorkflowStreamEvent): string {
+  return JSON.stringify(event) + "\n";
+}
+
+// 逐行读取响应体并解析事件
+export async function readWorkflowStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: WorkflowStreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flushLine = (line: string) => {
+    if (!line.trim()) return;
+    let event: WorkflowStreamEvent;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid stream event: ${line}`);
+    }
+    onEvent(event);
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let newlineIndex = buffer.indexOf("\n");
+      while (newlineIndex !== -1) {
+        flushLine(buffer.slice(0, newlineIndex));
+        buffer = buffer.slice(newlineIndex + 1);
+        newlineIndex = buffer.indexOf("\n");
+      }
+    }
+
+    flushLine(buffer + decoder.decode());
+  } catch (error) {
+    // 回调抛错时停止读取剩余内容
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  }
+}
+
+export type WorkflowErrorCode =
+  // 请求体格式或字段不正确
+  | "invalid_request"
+  // 请求体超过字节数上限
+  | "payload_too_large"
+  // 文本长度、树的节点数或层数超过上限
+  | "limit_exceeded"
+  | "rate_limited"
+  // 模型或提示词模板配置无效
+  | "invalid_config"
+  | WorkflowStreamErrorCode;
+
+// 流中 error 事件的错误码
+export type WorkflowStreamErrorCode =
+  // 模型没有返回任何有效的结果
+  | "empty_result"
+  // 生成过程中出错（模型输出无法解析等）
+  | "generation_failed";
+
+// 流开始之前拒绝请求时返回的 JSON（4xx），客户端也用它显示生成失败
+export interface WorkflowErrorBody {
+  error: string;
+  code: WorkflowErrorCode;
+  details?: string[];
+  // 限流时距离下次可以请求的秒数
+  retryAfter?: number;
+}
@@ -0,0 +1,239 @@
+// 拆解质量评测命令行：
+//   npm run eval -- [--corpus 文件] [--variants 文件]
+//     [--out eval-report.md] [--json 结果.json] [--attempts 1]
+//     [--judge] [--judge-model provider:model] [--min-pass-rate 0.8]
+// 与页面使用同样的环境变量（.env / .env.local），设置 LLM_PROVIDER=mock 可以离线试跑
+
+import { readFileSync, writeFileSync } from "fs";
+import { parseArgs } from "util";
+import { loadEnvConfig } from "@next/env";
+import {
+  EvalCase,
+  EvalResult,
+  EvalVariant,
+  isAllPassed,
+  runEvaluation,
+  summarizeEvaluation,
+  VariantSummary,
+} from "@/lib/server/evaluate-decomposition";
+import {
+  createChatModel,
+  resolveModelConfig,
+} from "@/lib/server/model-registry";
+
+loadEnvConfig(process.cwd());
+
+const { values: args } = parseArgs({
+  options: {
+    corpus: {
+      type: "string",
+      default: "scripts/fixtures/decomposition-corpus.json",
+    },
+    variants: {
+      type: "string",
+      default: "scripts/fixtures/decomposition-variants.json",
+    },
+    out: { type: "string", default: "eval-report.md" },
+    json: { type: "string" },
+    attempts: { type: "string", default: "1" },
+    judge: { type: "boolean", default: false },
+    "judge-model": { type: "string" },
+    "min-pass-rate": { type: "string" },
+  },
+});
+
+function readJson<T>(file: string): T {
+  return JSON.parse(readFileSync(file, "utf8"));
+}
+
+const percent = (value: number) => `${Math.round(value * 1000) / 10}%`;
+
+// 与第一个配置相比的变化，比例以百分点表示
+function delta(value: number, base: number, isRate: boolean): string {
+  const diff = value - base;
+  if (Math.abs(diff) < 1e-9) return "";
+  const sign = diff > 0 ? "+" : "";
+  return isRate
+    ? ` (${sign}${Math.round(diff * 1000) / 10}pp)`
+    : ` (${sign}${Math.round(diff * 100) / 100})`;
+}
+
+type SummaryRow = [
+  label: string,
+  read: (summary: VariantSummary) => number | null,
+  format: "rate" | "number",
+];
+
+const SUMMARY_ROWS: SummaryRow[] = [
+  ["全部通过", (s) => s.allPassedRate, "rate"],
+  ["比例总和为 1", (s) => s.ratioPassRate, "rate"],
+  ["无重复环节", (s) => s.duplicatesPassRate, "rate"],
+  ["环节数量合规", (s) => s.stepCountPassRate, "rate"],
+  ["不与同级分支重叠", (s) => s.siblingOverlapPassRate, "rate"],
+  ["平均同级相似度", (s) => s.meanSiblingOverlap, "number"],
+  ["平均环节数", (s) => s.meanSteps, "number"],
+  ["平均生成次数", (s) => s.meanAttempts, "number"],
+  ["出错条数", (s) => s.errors, "number"],
+  ["token 总数", (s) => s.totalTokens, "number"],
+  ["平均耗时（秒）", (s) => s.meanDurationMs / 1000, "number"],
+  ["评审：角色越界", (s) => s.roleLeakageRate, "rate"],
+  ["评审：顺序合理", (s) => s.orderedRate, "rate"],
+];
+
+function formatCell(
+  value: number | null,
+  base: number | null,
+  format: "rate" | "number"
+): string {
+  if (value === null) return "-";
+  const text =
+    format === "rate" ? percent(value) : String(Math.round(value * 100) / 100);
+  return base === null ? text : text + delta(value, base, format === "rate");
+}
+
+// 表格单元格中的竖线与换行会破坏 Markdown 表格
+const escapeCell = (text: string) =>
+  text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+
+function describeFailures(result: EvalResult): string {
+  if (result.error) return `出错：${result.error}`;
+  const scores = result.scores!;
+  const failures: string[] = [];
+  if (!scores.ratioPassed) {
+    failures.push(`比例总和 ${scores.ratioSum.toFixed(2)}`);
+  }
+  if (!scores.duplicatesPassed) failures.push(scores.duplicates);
+  if (!scores.stepCountPassed) failures.push(`${scores.stepCount} 个环节`);
+  if (!scores.siblingOverlapPassed) {
+    failures.push(`与同级重叠：${scores.overlapping.join("，")}`);
+  }
+  if (result.judge?.roleLeakage) {
+    failures.push(`角色越界：${result.judge.reason}`);
+  }
+  if (result.judge && !result.judge.ordered) {
+    failures.push(`顺序不合理：${result.judge.reason}`);
+  }
+  // 解析失败时的错误信息包含整段模型输出，只保留第一行
+  if (result.judgeError) {
+    failures.push(
+      `评审出错：${result.judgeError.split("\n")[0].slice(0, 120)}`
+    );
+  }
+  return failures.join("；") || "通过";
+}
+
+function renderReport(
+  cases: EvalCase[],
+  variants: EvalVariant[],
+  results: EvalResult[],
+  summaries: VariantSummary[]
+): string {
+  const lines = [
+    "# 拆解质量评测报告",
+    "",
+    `- 生成时间：${new Date().toISOString()}`,
+    `- 语料：${args.corpus}（${cases.length} 条）`,
+    `- 每条最多生成次数：${args.attempts}`,
+    `- 大模型评审：${args.judge ? args["judge-model"] || "默认模型" : "未开启"}`,
+    "",
+    "## 汇总",
+    "",
+    "括号中是相对第一个配置的变化。",
+    "",
+    `| 指标 | ${summaries.map((s) => escapeCell(s.variant)).join(" | ")} |`,
+    `| --- | ${summaries.map(() => "---").join(" | ")} |`,
+    ...SUMMARY_ROWS.map(([label, read, format]) => {
+      const base = read(summaries[0]);
+      const cells = summaries.map((summary, index) =>
+        formatCell(read(summary), index === 0 ? null : base, format)
+      );
+      return `| ${label} | ${cells.join(" | ")} |`;
+    }),
+    "",
+    "## 逐条结果",
+  ];
+
+  cases.forEach((testCase) => {
+    lines.push(
+      "",
+      `### ${testCase.id}：${testCase.text}`,
+      "",
+      "| 配置 | 拆解结果 | 问题 |",
+      "| --- | --- | --- |"
+    );
+    variants.forEach((variant) => {
+      const result = results.find(
+        (item) => item.caseId === testCase.id && item.variant === variant.name
+      );
+      if (!result) return;
+      const steps = result.steps
+        .map((step) => `${step.text} ${percent(step.ratio)}`)
+        .join("、");
+      const mark =
+        result.scores && isAllPassed(result.scores, result.judge) ? "✓" : "✗";
+      lines.push(
+        `| ${escapeCell(variant.name)} | ${escapeCell(steps || "-")} | ${mark} ${escapeCell(describeFailures(result))} |`
+      );
+    });
+  });
+
+  return lines.join("\n") + "\n";
+}
+
+async function main() {
+  const cases = readJson<EvalCase[]>(args.corpus!);
+  const variants = readJson<EvalVariant[]>(args.variants!);
+  const maxAttempts = Math.max(1, Number(args.attempts) || 1);
+
+  let judge = null;
+  if (args.judge) {
+    // --judge-model 的格式为 provider:model，省略时使用默认模型
+    const [provider, ...model] = (args["judge-model"] ?? "").split(":");
+    const config = resolveModelConfig(
+      provider ? { provider, model: model.join(":") || undefined } : undefined
+    );
+    judge = { model: createChatModel(config), config };
+  }
+
+  const results = await runEvaluation(cases, variants, {
+    maxAttempts,
+    judge,
+    onResult: (result) =>
+      console.log(
+        `[${result.variant}] ${result.caseId}: ${describeFailures(result)}`
+      ),
+  });
+  const summaries = summarizeEvaluation(results, variants);
+
+  writeFileSync(
+    args.out!,
+    renderReport(cases, variants, results, summaries),
+    "utf8"
+  );
+  console.log(`Report written to ${args.out}`);
+  if (args.json) {
+    writeFileSync(
+      args.json,
+      JSON.stringify({ summaries, results }, null, 2),
+      "utf8"
+    );
+    console.log(`Results written to ${args.json}`);
+  }
+
+  // 用于持续集成：任一配置的全部通过率低于阈值时以非零状态退出
+  const minPassRate = Number(args["min-pass-rate"]);
+  if (args["min-pass-rate"] !== undefined && Number.isFinite(minPassRate)) {
+    const failing = summaries.filter((s) => s.allPassedRate < minPassRate);
+    failing.forEach((s) =>
+      console.error(
+        `${s.variant}: pass rate ${percent(s.allPassedRate)} is below ${percent(minPassRate)}`
+      )
+    );
+    if (failing.length > 0) process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});